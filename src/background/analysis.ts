@@ -0,0 +1,282 @@
+/// <reference types="chrome"/>
+// Background AI analysis: a persistent job queue, retried on chrome.alarms
+import { aiService, type AnalyzeOptions } from '../services/ai-service';
+import type { ExtractionPayload } from '../lib/content-extractor';
+import { useCardStore, type CardStore } from '../store/card-store';
+import { loadAttachment } from '../lib/attachments';
+import { ANALYSIS_QUEUE_KEY, getAnalysisJobs, type AnalysisJob } from '../lib/analysis-queue';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { storage } from '../lib/storage';
+import type { Card } from '../lib/types';
+import { readLink } from './page-read';
+
+export const ANALYSIS_ALARM = 'cutoff-analysis-queue';
+
+const MAX_ATTEMPTS = 5;
+// Alarms fire no sooner than 30 seconds out
+const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000];
+const OFFLINE_RECHECK_MS = 60_000;
+const QUEUE_CONCURRENCY = 3;
+const API_KEY_MISSING = 'API_KEY_MISSING';
+// Only the file name is left: retrying cannot help
+const FILE_UNAVAILABLE = 'File content unavailable. Capture the file again.';
+
+// Each card write re-reads storage so side panel changes are not clobbered. Chained like the queue:
+// a concurrent job's re-read would otherwise reset the store under another job's update.
+let cardWrite: Promise<unknown> = Promise.resolve();
+
+function withFreshCards<T>(write: (store: CardStore) => Promise<T>): Promise<T> {
+    const next = cardWrite.then(async () => {
+        await useCardStore.getState().loadCards({ sync: false });
+        return write(useCardStore.getState());
+    });
+    cardWrite = next.catch(() => undefined);
+    return next;
+}
+
+// The queue syncs once per run, not per patch
+const patchCard = (id: string, updates: Partial<Card>): Promise<Card | undefined> =>
+    withFreshCards(async store => {
+        if (!store.getCard(id)) return undefined;
+        await store.updateCard(id, updates);
+        return store.getCard(id);
+    });
+
+async function analyze(card: Card, payload?: ExtractionPayload, options?: AnalyzeOptions) {
+    if (payload) return aiService.analyzeContent(payload, options);
+    if (card.attachment) {
+        const image = await loadAttachment(card.attachment.id);
+        if (!image) throw new Error('Attachment missing');
+        return aiService.analyzeContent({
+            url: '',
+            platform: 'file',
+            title: card.extractedTitle || 'Screenshot',
+            rawText: `Screenshot (${card.attachment.width}×${card.attachment.height}) taken on ${card.platformName || 'a page'}: ${card.extractedTitle || 'untitled'}`,
+            metadata: {},
+            fileData: { mimeType: image.mimeType, data: image.data }
+        }, options);
+    }
+    if (card.sourceType === 'file') throw new Error(FILE_UNAVAILABLE);
+    if (card.sourceType === 'url') {
+        // The job kept no extraction (re-analysis, or a link read over fetch): re-read over fetch,
+        // which sees less than a scripted capture of the tab did
+        const { payload: fetched } = await readLink(card.sourceContent);
+        return fetched ? aiService.analyzeContent(fetched, options) : aiService.analyzeUrl(card.sourceContent, undefined, options);
+    }
+    if (card.sourceLocation) {
+        const { url, title, excerpt, context } = card.sourceLocation;
+        return aiService.analyzeContent({
+            url,
+            platform: 'text',
+            title: title || 'Selection',
+            rawText: `SELECTED PASSAGE:\n${excerpt}\n\nSURROUNDING PARAGRAPH:\n${context || 'Not available'}`,
+            metadata: {}
+        }, options);
+    }
+    return aiService.analyzeText(card.sourceContent, options);
+}
+
+interface QueueEntry {
+    cardId: string;
+    payload?: ExtractionPayload | null;
+    force?: boolean;
+}
+
+// The worker is the only writer; chained so concurrent jobs do not drop each other's updates
+let queueWrite: Promise<unknown> = Promise.resolve();
+
+function mutateQueue(update: (jobs: AnalysisJob[]) => AnalysisJob[]): Promise<AnalysisJob[]> {
+    const next = queueWrite.then(async () => {
+        const jobs = update(await getAnalysisJobs());
+        await storage.set(ANALYSIS_QUEUE_KEY, jobs);
+        return jobs;
+    });
+    queueWrite = next.catch(() => undefined);
+    return next;
+}
+
+const patchJob = (cardId: string, updates: Partial<AnalysisJob>) =>
+    mutateQueue(jobs => jobs.map(job => job.cardId === cardId ? { ...job, ...updates } : job));
+
+const removeJob = (cardId: string) => mutateQueue(jobs => jobs.filter(job => job.cardId !== cardId));
+
+// No network: wait for it instead of burning attempts
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+async function runJob(job: AnalysisJob): Promise<void> {
+    const card = await patchCard(job.cardId, { analysisStatus: 'analyzing', analysisError: undefined });
+    if (!card || card.state === 'discarded') {
+        await removeJob(job.cardId);
+        return;
+    }
+
+    try {
+        const result = await analyze(card, job.payload, { force: job.force });
+        await patchCard(job.cardId, {
+            aiTitle: result.title,
+            aiSummary: result.summary,
+            aiTags: result.tags,
+            category: result.category,
+            aiModel: result.model,
+            startAction: card.startAction || result.startAction || undefined,
+            extractedTitle: card.extractedTitle || job.payload?.title,
+            analysisStatus: 'done',
+            analysisError: undefined,
+        });
+        await removeJob(job.cardId);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Analysis failed';
+
+        // Missing key is not the API's fault: wait for the key instead of burning attempts
+        if (message === API_KEY_MISSING) {
+            await patchJob(job.cardId, { status: 'blocked', lastError: API_KEY_MISSING });
+            await patchCard(job.cardId, { analysisStatus: 'failed', analysisError: API_KEY_MISSING });
+            return;
+        }
+
+        if (message === FILE_UNAVAILABLE) {
+            await patchJob(job.cardId, { status: 'failed', lastError: FILE_UNAVAILABLE });
+            await patchCard(job.cardId, { analysisStatus: 'failed', analysisError: FILE_UNAVAILABLE });
+            return;
+        }
+
+        if (isOffline()) {
+            await patchJob(job.cardId, { status: 'queued', lastError: 'Offline', nextAttemptAt: Date.now() + OFFLINE_RECHECK_MS });
+            await patchCard(job.cardId, { analysisStatus: 'pending', analysisError: 'Offline' });
+            return;
+        }
+
+        const attempts = job.attempts + 1;
+        const canRetry = attempts < MAX_ATTEMPTS;
+        await patchJob(job.cardId, {
+            status: canRetry ? 'queued' : 'failed',
+            attempts,
+            lastError: message.slice(0, 200),
+            nextAttemptAt: canRetry ? Date.now() + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1] : 0,
+        });
+        await patchCard(job.cardId, {
+            analysisStatus: canRetry ? 'pending' : 'failed',
+            analysisError: message.slice(0, 200),
+            analysisAttempts: attempts,
+        });
+    }
+}
+
+async function scheduleNext(jobs: AnalysisJob[]): Promise<void> {
+    const due = jobs.filter(job => job.status === 'queued').map(job => job.nextAttemptAt);
+    if (due.length === 0) {
+        await chrome.alarms.clear(ANALYSIS_ALARM);
+        return;
+    }
+    await chrome.alarms.create(ANALYSIS_ALARM, { when: Math.max(Date.now() + 1000, Math.min(...due)) });
+}
+
+let processing: Promise<void> | null = null;
+let rerun = false;
+
+async function drainQueue(): Promise<void> {
+    // Nothing runs in this worker yet, so "running" jobs were cut off by a shutdown
+    let jobs = await mutateQueue(all => all.map(job => job.status === 'running' ? { ...job, status: 'queued' } : job));
+
+    for (;;) {
+        const now = Date.now();
+        const due = jobs.filter(job => job.status === 'queued' && job.nextAttemptAt <= now);
+        if (due.length === 0) break;
+
+        const dueIds = new Set(due.map(job => job.cardId));
+        await mutateQueue(all => all.map(job => dueIds.has(job.cardId) ? { ...job, status: 'running' } : job));
+        await mapWithConcurrency(due, QUEUE_CONCURRENCY, runJob);
+        useCardStore.getState().syncCards();
+        jobs = await getAnalysisJobs();
+    }
+    await scheduleNext(jobs);
+}
+
+/** Runs every due job. Concurrent calls join the run in progress, which drains again before ending. */
+export function processQueue(): Promise<void> {
+    if (processing) {
+        rerun = true;
+        return processing;
+    }
+    processing = (async () => {
+        do {
+            rerun = false;
+            await drainQueue();
+        } while (rerun);
+    })().finally(() => {
+        processing = null;
+    });
+    return processing;
+}
+
+const markPending = (cardIds: string[]): Promise<void> =>
+    withFreshCards(async store => {
+        for (const id of cardIds) {
+            const card = store.getCard(id);
+            if (card && card.analysisStatus !== 'pending') {
+                await store.updateCard(id, { analysisStatus: 'pending', analysisError: undefined, analysisAttempts: 0 });
+            }
+        }
+    });
+
+// New jobs start with a fresh attempt budget; a re-queued card keeps its extracted payload
+function enqueue(jobs: AnalysisJob[], entries: QueueEntry[]): AnalysisJob[] {
+    const now = Date.now();
+    const byId = new Map(jobs.map(job => [job.cardId, job]));
+    for (const { cardId, payload, force } of entries) {
+        const existing = byId.get(cardId);
+        if (existing?.status === 'running') continue;
+        byId.set(cardId, {
+            cardId,
+            status: 'queued',
+            attempts: 0,
+            nextAttemptAt: now,
+            enqueuedAt: existing?.enqueuedAt ?? now,
+            payload: payload || existing?.payload,
+            force: force || existing?.force,
+        });
+    }
+    return [...byId.values()];
+}
+
+export async function queueAnalyses(entries: QueueEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await mutateQueue(jobs => enqueue(jobs, entries));
+    await markPending(entries.map(entry => entry.cardId));
+    await processQueue();
+}
+
+export const queueAnalysis = (cardId: string, payload?: ExtractionPayload | null) =>
+    queueAnalyses([{ cardId, payload }]);
+
+// Manual retry from the side panel resets the attempt budget
+export const retryAnalysis = (cardId: string) => queueAnalysis(cardId);
+
+export const reanalyzeCard = (cardId: string) => queueAnalyses([{ cardId, force: true }]);
+
+export async function retryAllAnalyses(): Promise<void> {
+    const jobs = await getAnalysisJobs();
+    await queueAnalyses(jobs.filter(job => job.status !== 'running').map(job => ({ cardId: job.cardId })));
+}
+
+// Browser start: re-queue cut-off jobs and adopt pending cards saved without one. Key saved: release blocked jobs.
+export async function resumeAnalyses(onlyMissingKey = false): Promise<void> {
+    const jobs = await getAnalysisJobs();
+    if (onlyMissingKey) {
+        await queueAnalyses(jobs.filter(job => job.status === 'blocked').map(job => ({ cardId: job.cardId })));
+        return;
+    }
+
+    const store = useCardStore.getState();
+    await store.loadCards({ sync: false });
+    const live = new Set(store.cards.filter(c => c.state !== 'discarded').map(c => c.id));
+    const queued = new Set(jobs.map(job => job.cardId));
+    const orphaned = store.cards.filter(c => live.has(c.id) && !queued.has(c.id) && (
+        c.analysisStatus === 'pending' ||
+        c.analysisStatus === 'analyzing' ||
+        (c.analysisStatus === 'failed' && c.analysisError === API_KEY_MISSING)
+    ));
+    // Jobs of deleted or discarded cards are dropped here
+    await mutateQueue(all => enqueue(all.filter(job => live.has(job.cardId)), orphaned.map(card => ({ cardId: card.id }))));
+    await processQueue();
+}
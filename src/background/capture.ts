@@ -0,0 +1,132 @@
+/// <reference types="chrome"/>
+// Capture entry points shared by the context menu and keyboard commands
+import { useCardStore, type CaptureResult } from '../store/card-store';
+import type { CardDraft } from '../lib/types';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import { buildTextFragmentUrl } from '../lib/text-fragment';
+import type { ExtractionPayload } from '../lib/content-extractor';
+import { queueAnalyses, queueAnalysis } from './analysis';
+import { readLink, readTab } from './page-read';
+
+const isCapturableUrl = (url?: string) => !!url && /^https?:\/\//.test(url);
+
+// Recaptures keep their existing analysis; new cards (or failed ones) are analysed.
+// Held captures are analysed once admitted.
+async function capture(draft: CardDraft, payload?: ExtractionPayload | null): Promise<CaptureResult> {
+    const store = useCardStore.getState();
+    await store.loadCards();
+
+    const result = await store.addCard(draft);
+    if (result.status === 'held') return result;
+    if (result.status === 'added' || result.card.analysisStatus === 'failed') {
+        await queueAnalysis(result.card.id, payload);
+    }
+    return result;
+}
+
+// Current page: extract first so the page's canonical link feeds dedupe
+export async function captureTab(tab: chrome.tabs.Tab): Promise<CaptureResult | null> {
+    if (!isCapturableUrl(tab.url)) return null;
+
+    const { payload, readMinutes } = await readTab(tab);
+
+    return capture({
+        sourceContent: tab.url!,
+        sourceType: 'url',
+        platformName: new URL(tab.url!).hostname,
+        extractedTitle: payload?.title || tab.title,
+        canonicalUrl: canonicalizeUrl(tab.url!, payload?.canonicalUrl),
+        estimatedReadMinutes: readMinutes,
+        analysisStatus: 'pending',
+    }, payload);
+}
+
+// A link on the page: not scriptable, so read its metadata (or the PDF) over fetch
+export async function captureLink(url: string): Promise<CaptureResult | null> {
+    if (!isCapturableUrl(url)) return null;
+
+    const { payload, readMinutes, metadata } = await readLink(url);
+
+    return capture({
+        sourceContent: url,
+        sourceType: 'url',
+        platformName: new URL(url).hostname,
+        extractedTitle: payload?.title || metadata?.title,
+        canonicalUrl: canonicalizeUrl(url, metadata?.canonicalUrl),
+        estimatedReadMinutes: readMinutes,
+        analysisStatus: 'pending',
+    }, payload);
+}
+
+export async function captureText(text: string): Promise<CaptureResult | null> {
+    if (!text.trim()) return null;
+
+    return capture({
+        sourceContent: text.trim(),
+        sourceType: 'text',
+        analysisStatus: 'pending',
+    });
+}
+
+// Held captures that earned entry become cards; link and selection captures still need analysis
+export async function admitHeldCaptures(): Promise<void> {
+    const store = useCardStore.getState();
+    await store.loadCards();
+
+    const admitted = await store.admitQuarantined();
+    await queueAnalyses(admitted.filter(c => c.analysisStatus === 'pending').map(card => ({ cardId: card.id })));
+}
+
+export interface SelectionSnapshot {
+    text: string;
+    context?: string;
+    url?: string;
+    title?: string;
+}
+
+// Selections keep their page: the card links back to the passage via a text fragment
+export async function captureSelection(selection: SelectionSnapshot): Promise<CaptureResult | null> {
+    const text = selection.text.trim();
+    if (!text) return null;
+    if (!isCapturableUrl(selection.url)) return captureText(text);
+
+    const url = selection.url!;
+    return capture({
+        sourceContent: text,
+        sourceType: 'text',
+        platformName: new URL(url).hostname,
+        extractedTitle: selection.title,
+        sourceLocation: {
+            url,
+            title: selection.title,
+            excerpt: text,
+            context: selection.context,
+            fragmentUrl: buildTextFragmentUrl(url, text, selection.context),
+        },
+        analysisStatus: 'pending',
+    });
+}
+
+// Reads the selection with its surrounding paragraph; the context menu's selectionText lacks both
+export async function readSelection(tabId: number, frameId?: number): Promise<SelectionSnapshot | null> {
+    try {
+        const injection = await chrome.scripting.executeScript({
+            target: frameId !== undefined ? { tabId, frameIds: [frameId] } : { tabId },
+            func: () => {
+                const selection = window.getSelection();
+                const text = selection?.toString() || '';
+                if (!selection || !text.trim() || selection.rangeCount === 0) return null;
+
+                const anchor = selection.getRangeAt(0).commonAncestorContainer;
+                const element = anchor instanceof Element ? anchor : anchor.parentElement;
+                const block = element?.closest('p, li, blockquote, pre, td, dd, h1, h2, h3, h4, article, section, div') as HTMLElement | null;
+                const context = block?.innerText.replace(/\s+/g, ' ').trim().slice(0, 1500);
+
+                return { text, context, url: location.href, title: document.title };
+            }
+        });
+        return (injection?.[0]?.result as SelectionSnapshot | null) || null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,77 @@
+/// <reference types="chrome"/>
+// Keyboard commands (manifest "commands"), rebindable at chrome://extensions/shortcuts
+import { storage } from '../lib/storage';
+import { PENDING_CONFRONTATION_KEY } from '../lib/messages';
+import { useCardStore } from '../store/card-store';
+import { admitHeldCaptures, captureSelection, captureTab, readSelection } from './capture';
+import { captureScreenshot } from './screenshot';
+
+export type CommandName =
+    | 'capture-tab'
+    | 'capture-selection'
+    | 'capture-region'
+    | 'confront-oldest'
+    | 'stop-execute'
+    | 'abort-execute';
+
+// Side panel picks this up and opens the gate for the card
+async function confrontOldest(): Promise<void> {
+    const store = useCardStore.getState();
+    await store.loadCards();
+
+    const oldest = store.cards
+        .filter(c => c.state === 'uncommitted')
+        .sort((a, b) => a.createdAt - b.createdAt)[0];
+
+    if (oldest) {
+        await storage.set(PENDING_CONFRONTATION_KEY, oldest.id);
+    }
+}
+
+async function endExecuteSession(result: 'stop' | 'abort'): Promise<void> {
+    const store = useCardStore.getState();
+    await store.loadCards();
+
+    const running = store.cards.find(c => c.state === 'executed' && c.executeStartedAt);
+    if (!running) return;
+
+    if (result === 'stop') {
+        await store.stopExecute(running.id);
+        await admitHeldCaptures();
+    } else {
+        await store.abortExecute(running.id);
+    }
+}
+
+export async function handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    // sidePanel.open only works synchronously inside the shortcut's user gesture
+    const opensPanel = command === 'capture-tab' || command === 'capture-selection' ||
+        command === 'capture-region' || command === 'confront-oldest';
+    if (opensPanel && tab?.id !== undefined) {
+        chrome.sidePanel.open({ tabId: tab.id });
+    }
+
+    switch (command as CommandName) {
+        case 'capture-tab':
+            if (tab) await captureTab(tab);
+            break;
+        case 'capture-selection':
+            if (tab?.id !== undefined) {
+                const selection = await readSelection(tab.id);
+                if (selection) await captureSelection(selection);
+            }
+            break;
+        case 'capture-region':
+            if (tab) await captureScreenshot(tab, 'region');
+            break;
+        case 'confront-oldest':
+            await confrontOldest();
+            break;
+        case 'stop-execute':
+            await endExecuteSession('stop');
+            break;
+        case 'abort-execute':
+            await endExecuteSession('abort');
+            break;
+    }
+}
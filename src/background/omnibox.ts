@@ -0,0 +1,75 @@
+/// <reference types="chrome"/>
+// Omnibox keyword capture: "co <url or note>"
+import { CARDS_STORAGE_KEY } from '../store/card-store';
+import { storage } from '../lib/storage';
+import { formatTimeSince } from '../lib/types';
+import type { Card } from '../lib/types';
+import { captureLink, captureText } from './capture';
+
+const MAX_SUGGESTIONS = 5;
+
+// Omnibox descriptions are XML; user content must be escaped
+const escapeXml = (str: string) => str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const cardLabel = (card: Card) => card.aiTitle || card.extractedTitle || card.sourceContent;
+
+function describeState(card: Card): string {
+    switch (card.state) {
+        case 'discarded':
+            return `You already discarded this ${formatTimeSince(card.decidedAt || card.createdAt)}`;
+        case 'shadowed':
+            return `Shadowed ${formatTimeSince(card.decidedAt || card.createdAt)}. Loop still open`;
+        case 'executed':
+            return 'Already in execution';
+        default:
+            return `Saved ${formatTimeSince(card.createdAt)}. No decision made`;
+    }
+}
+
+function findMatches(cards: Card[], text: string): Card[] {
+    const terms = text.toLowerCase().split(/\s+/).filter(t => t.length > 1);
+    if (terms.length === 0) return [];
+
+    return cards
+        .filter(card => {
+            const haystack = [card.aiTitle, card.extractedTitle, card.sourceContent, ...(card.aiTags || [])]
+                .filter(Boolean)
+                .join(' ')
+                .toLowerCase();
+            return terms.every(t => haystack.includes(t));
+        })
+        .slice(0, MAX_SUGGESTIONS);
+}
+
+export function registerOmnibox(): void {
+    chrome.omnibox.setDefaultSuggestion({
+        description: 'Save to Cutoff: %s'
+    });
+
+    chrome.omnibox.onInputChanged.addListener(async (text, suggest) => {
+        // Runs per keystroke: a plain read, not loadCards, which also syncs the cloud mirror
+        const cards = (await storage.get<Card[]>(CARDS_STORAGE_KEY)) || [];
+
+        suggest(findMatches(cards, text).map(card => ({
+            content: card.sourceContent,
+            description: `<dim>${escapeXml(describeState(card))}:</dim> <match>${escapeXml(cardLabel(card).slice(0, 80))}</match>`
+        })));
+    });
+
+    // Same classification as Popup.handleSubmit
+    chrome.omnibox.onInputEntered.addListener(async (text) => {
+        const input = text.trim();
+        if (!input) return;
+
+        if (input.startsWith('http')) {
+            await captureLink(input);
+        } else {
+            await captureText(input);
+        }
+    });
+}
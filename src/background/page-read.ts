@@ -0,0 +1,74 @@
+/// <reference types="chrome"/>
+// Page reads for worker captures and analyses: scripted extraction, metadata over fetch, PDFs offscreen
+import { extractPageContext, readMinutesOf, type ExtractionPayload } from '../lib/content-extractor';
+import { fetchPageMetadata, metadataToPayload, type PageMetadata } from '../lib/metadata-fetcher';
+import { isPdfContentType, isPdfUrl, type PdfRead } from '../lib/pdf-source';
+import { sendRuntimeMessage } from '../lib/messages';
+
+const OFFSCREEN_PATH = 'offscreen.html';
+
+export interface PageRead {
+    payload: ExtractionPayload | null;
+    readMinutes?: number;
+    metadata?: PageMetadata;    // Link reads only
+}
+
+export async function extractFromTab(tabId: number): Promise<ExtractionPayload | null> {
+    try {
+        const injection = await chrome.scripting.executeScript({
+            target: { tabId },
+            func: extractPageContext
+        });
+        return (injection?.[0]?.result as ExtractionPayload) || null;
+    } catch {
+        // Restricted pages (chrome://, web store) cannot be scripted
+        return null;
+    }
+}
+
+let creatingOffscreen: Promise<void> | null = null;
+
+async function ensureOffscreenDocument(): Promise<void> {
+    const contexts = await chrome.runtime.getContexts({
+        contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+        documentUrls: [chrome.runtime.getURL(OFFSCREEN_PATH)],
+    });
+    if (contexts.length > 0) return;
+
+    // Only one offscreen document may exist: concurrent reads share its creation
+    creatingOffscreen ??= chrome.offscreen.createDocument({
+        url: OFFSCREEN_PATH,
+        reasons: [chrome.offscreen.Reason.WORKERS],
+        justification: 'Read PDF text with pdf.js, which runs in a Worker',
+    }).finally(() => {
+        creatingOffscreen = null;
+    });
+    await creatingOffscreen;
+}
+
+// pdf.js needs a Worker, which a service worker cannot start. Null when the URL is not a PDF.
+async function readPdf(url: string): Promise<PdfRead | null> {
+    try {
+        await ensureOffscreenDocument();
+        return (await sendRuntimeMessage<PdfRead | null>({ type: 'cutoff:read-pdf', url })) || null;
+    } catch {
+        return null;
+    }
+}
+
+// A tab that cannot be scripted may be a PDF in Chrome's viewer
+export async function readTab(tab: chrome.tabs.Tab): Promise<PageRead> {
+    const payload = tab.id !== undefined ? await extractFromTab(tab.id) : null;
+    if (payload) return { payload, readMinutes: readMinutesOf(payload) };
+    return (tab.url && await readPdf(tab.url)) || { payload: null };
+}
+
+// PDFs are known by their path, else by the content type the metadata fetch reports
+export async function readLink(url: string): Promise<PageRead> {
+    const metadata = isPdfUrl(url) ? undefined : await fetchPageMetadata(url);
+    if (!metadata || isPdfContentType(metadata.contentType)) {
+        const pdf = await readPdf(url);
+        if (pdf) return { ...pdf, metadata };
+    }
+    return { payload: metadata ? metadataToPayload(metadata) : null, metadata };
+}
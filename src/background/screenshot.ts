@@ -0,0 +1,112 @@
+/// <reference types="chrome"/>
+// Screenshot captures: visible area or a region picked on the page
+import { useCardStore, type CaptureResult } from '../store/card-store';
+import { saveAttachment } from '../lib/attachments';
+import { encodeImage } from '../lib/image-encode';
+import { queueAnalysis } from './analysis';
+
+export type ScreenshotMode = 'visible' | 'region';
+
+interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    viewportWidth: number;
+}
+
+// Injected: draws a drag-to-select overlay and resolves with the region in CSS pixels (null on Escape)
+function pickRegion(): Promise<Region | null> {
+    return new Promise(resolve => {
+        const overlay = document.createElement('div');
+        overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;cursor:crosshair;background:rgba(0,0,0,0.35);';
+        const box = document.createElement('div');
+        box.style.cssText = 'position:fixed;border:1px solid #d9ff00;background:rgba(217,255,0,0.08);display:none;pointer-events:none;';
+        overlay.appendChild(box);
+        document.documentElement.appendChild(overlay);
+
+        let start: { x: number; y: number } | null = null;
+
+        const finish = (region: Region | null) => {
+            overlay.remove();
+            window.removeEventListener('keydown', onKey, true);
+            // Let the page repaint without the overlay before the capture
+            requestAnimationFrame(() => requestAnimationFrame(() => resolve(region)));
+        };
+        const rect = (e: MouseEvent) => ({
+            x: Math.min(start!.x, e.clientX),
+            y: Math.min(start!.y, e.clientY),
+            width: Math.abs(e.clientX - start!.x),
+            height: Math.abs(e.clientY - start!.y),
+        });
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                finish(null);
+            }
+        };
+
+        overlay.addEventListener('mousedown', e => {
+            e.preventDefault();
+            start = { x: e.clientX, y: e.clientY };
+        });
+        overlay.addEventListener('mousemove', e => {
+            if (!start) return;
+            const r = rect(e);
+            Object.assign(box.style, {
+                display: 'block', left: `${r.x}px`, top: `${r.y}px`, width: `${r.width}px`, height: `${r.height}px`
+            });
+        });
+        overlay.addEventListener('mouseup', e => {
+            if (!start) return;
+            const r = rect(e);
+            finish(r.width < 10 || r.height < 10 ? null : { ...r, viewportWidth: window.innerWidth });
+        });
+        window.addEventListener('keydown', onKey, true);
+    });
+}
+
+// The region is in CSS pixels; the capture is in device pixels
+async function toDevicePixels(png: Blob, region: Region) {
+    const bitmap = await createImageBitmap(png);
+    const scale = bitmap.width / region.viewportWidth;
+    bitmap.close();
+    return { x: region.x * scale, y: region.y * scale, width: region.width * scale, height: region.height * scale };
+}
+
+export async function captureScreenshot(tab: chrome.tabs.Tab, mode: ScreenshotMode): Promise<CaptureResult | null> {
+    if (tab.id === undefined || !tab.url) return null;
+
+    let region: Region | undefined;
+    if (mode === 'region') {
+        try {
+            const injection = await chrome.scripting.executeScript({ target: { tabId: tab.id }, func: pickRegion });
+            const picked = injection?.[0]?.result as Region | null;
+            if (!picked) return null;
+            region = picked;
+        } catch {
+            // Restricted pages cannot host the overlay
+            return null;
+        }
+    }
+
+    const png = await (await fetch(await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' }))).blob();
+    const image = await encodeImage(png, region && await toDevicePixels(png, region));
+    const attachment = await saveAttachment(image.data, image.mimeType, image);
+
+    const hostname = /^https?:/.test(tab.url) ? new URL(tab.url).hostname : undefined;
+    const store = useCardStore.getState();
+    await store.loadCards();
+    const result = await store.addCard({
+        sourceContent: `Screenshot: ${tab.title || tab.url}`,
+        sourceType: 'file',
+        platformName: hostname,
+        extractedTitle: tab.title,
+        attachment,
+        analysisStatus: 'pending',
+    });
+
+    // The queue loads the image from the attachment, so retries survive a worker restart
+    if (result.status !== 'held') await queueAnalysis(result.card.id);
+    return result;
+}
@@ -1,6 +1,13 @@
 /// <reference types="chrome"/>
 import { storage } from '../lib/storage';
-import type { Card } from '../lib/types';
+import { AI_SETTINGS_KEY } from '../services/ai-service';
+import type { RuntimeMessage } from '../lib/messages';
+import { ANALYSIS_ALARM, processQueue, queueAnalysis, reanalyzeCard, resumeAnalyses, retryAllAnalyses, retryAnalysis } from './analysis';
+import { admitHeldCaptures, captureLink, captureSelection, captureTab, readSelection } from './capture';
+import { handleCommand } from './commands';
+import { registerOmnibox } from './omnibox';
+import { captureScreenshot } from './screenshot';
+import { captureTabs } from './tab-capture';
 
 // Open Side Panel on extension icon click
 chrome.action.onClicked.addListener((tab) => {
@@ -11,51 +18,132 @@ chrome.action.onClicked.addListener((tab) => {
 
 // Context Menu: Save to Cutoff
 chrome.runtime.onInstalled.addListener(() => {
+    // Updates do not fire onStartup: adopt cards left pending by the previous version
+    resumeAnalyses();
+
     chrome.contextMenus.create({
         id: "cutoff-save",
         title: "Save to Cutoff",
         contexts: ["selection", "link", "page"]
     });
+
+    // Bulk capture of open tabs
+    chrome.contextMenus.create({
+        id: "cutoff-tabs",
+        title: "Cut off my tabs",
+        contexts: ["page", "action"]
+    });
+    for (const [id, title] of [
+        ["cutoff-tabs-window", "All tabs in this window"],
+        ["cutoff-tabs-window-close", "All tabs in this window, then close them"],
+        ["cutoff-tabs-group", "This tab group"],
+        ["cutoff-tabs-group-close", "This tab group, then close it"],
+    ]) {
+        chrome.contextMenus.create({ id, parentId: "cutoff-tabs", title, contexts: ["page", "action"] });
+    }
+
+    // Screenshots of things that cannot be described in text
+    chrome.contextMenus.create({
+        id: "cutoff-shot",
+        title: "Screenshot to Cutoff",
+        contexts: ["page", "image", "action"]
+    });
+    for (const [id, title] of [
+        ["cutoff-shot-region", "Select region"],
+        ["cutoff-shot-visible", "Visible area"],
+    ]) {
+        chrome.contextMenus.create({ id, parentId: "cutoff-shot", title, contexts: ["page", "image", "action"] });
+    }
 });
 
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+    const menuId = String(info.menuItemId);
+
+    if (menuId.startsWith("cutoff-tabs-") && tab) {
+        const byGroup = menuId.startsWith("cutoff-tabs-group");
+        if (byGroup && (tab.groupId === undefined || tab.groupId === -1)) return;
+
+        await captureTabs({
+            windowId: tab.windowId,
+            groupId: byGroup ? tab.groupId : undefined,
+            closeTabs: menuId.endsWith("-close"),
+        });
+        return;
+    }
+
+    if (menuId.startsWith("cutoff-shot-") && tab) {
+        if (tab.id) chrome.sidePanel.open({ tabId: tab.id });
+        await captureScreenshot(tab, menuId === "cutoff-shot-region" ? "region" : "visible");
+        return;
+    }
+
     if (info.menuItemId === "cutoff-save") {
-        let content = "";
-        let type: "url" | "text" = "text";
-        let platformName: string | undefined;
+        // Open Side Panel to show the saved card (must stay inside the user gesture)
+        if (tab?.id) {
+            chrome.sidePanel.open({ tabId: tab.id });
+        }
 
         if (info.linkUrl) {
-            content = info.linkUrl;
-            type = "url";
-            platformName = new URL(info.linkUrl).hostname;
+            await captureLink(info.linkUrl);
         } else if (info.selectionText) {
-            content = info.selectionText;
-            type = "text";
-        } else if (info.pageUrl) {
-            content = info.pageUrl;
-            type = "url";
-            platformName = new URL(info.pageUrl).hostname;
+            // Restricted pages cannot be scripted: keep the menu's text and page URL
+            const selection = tab?.id !== undefined ? await readSelection(tab.id, info.frameId) : null;
+            await captureSelection(selection || {
+                text: info.selectionText,
+                url: info.frameUrl || info.pageUrl,
+                title: tab?.title,
+            });
+        } else if (tab) {
+            await captureTab(tab);
         }
+    }
+});
 
-        if (content) {
-            const cards = (await storage.get<Card[]>("cutoff_cards")) || [];
-            const newCard: Card = {
-                id: crypto.randomUUID(),
-                state: "uncommitted",
-                sourceType: type,
-                sourceContent: content,
-                platformName,
-                createdAt: Date.now(),
-                totalConfrontations: 0,
-                executeDuration: 15,
-            };
-
-            await storage.set("cutoff_cards", [newCard, ...cards]);
-
-            // Open Side Panel to show the saved card
-            if (tab?.id) {
-                chrome.sidePanel.open({ tabId: tab.id });
-            }
-        }
+// Keyboard shortcuts
+chrome.commands.onCommand.addListener((command, tab) => {
+    handleCommand(command, tab);
+});
+
+// Address bar: "co <url or note>"
+registerOmnibox();
+
+chrome.runtime.onMessage.addListener((message: RuntimeMessage, _sender, sendResponse) => {
+    if (message.type === "cutoff:queue-analysis") {
+        queueAnalysis(message.cardId, message.payload);
+    } else if (message.type === "cutoff:retry-analysis") {
+        retryAnalysis(message.cardId);
+    } else if (message.type === "cutoff:reanalyze") {
+        reanalyzeCard(message.cardId);
+    } else if (message.type === "cutoff:retry-all-analyses") {
+        retryAllAnalyses();
+    } else if (message.type === "cutoff:capture-tabs") {
+        captureTabs(message.request)
+            .then(sendResponse)
+            .catch((error: unknown) => sendResponse({
+                captured: 0,
+                duplicates: 0,
+                skipped: 0,
+                held: 0,
+                error: error instanceof Error ? error.message : "Tab capture failed",
+            }));
+        return true; // Async response
+    } else if (message.type === "cutoff:admit-quarantine") {
+        admitHeldCaptures();
     }
 });
+
+// Retry key-blocked analyses as soon as a key is saved, or a keyless backend is selected
+storage.watch<string>("cutoff_gemini_api_key", (key) => {
+    if (key) resumeAnalyses(true);
+});
+storage.watch(AI_SETTINGS_KEY, () => resumeAnalyses(true));
+
+// Queued analyses wake the worker when their retry is due
+chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === ANALYSIS_ALARM) processQueue();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    resumeAnalyses();
+    admitHeldCaptures(); // Also drops expired held captures
+});
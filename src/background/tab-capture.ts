@@ -0,0 +1,83 @@
+/// <reference types="chrome"/>
+// Bulk "cut off my tabs": every tab in a window or tab group becomes an uncommitted card
+import { useCardStore } from '../store/card-store';
+import { mapWithConcurrency } from '../lib/concurrency';
+import type { TabCaptureRequest, TabCaptureResult } from '../lib/messages';
+import type { CardDraft } from '../lib/types';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import { queueAnalyses } from './analysis';
+import { readTab, type PageRead } from './page-read';
+
+// Tabs extracted at once
+const EXTRACTION_CONCURRENCY = 3;
+
+// chrome.tabGroups.TAB_GROUP_ID_NONE, without requiring the tabGroups permission
+const NO_GROUP = -1;
+
+const isWebTab = (tab: chrome.tabs.Tab) => !!tab.url && /^https?:\/\//.test(tab.url);
+
+async function queryTabs(request: TabCaptureRequest): Promise<chrome.tabs.Tab[]> {
+    if (request.groupId !== undefined && request.groupId !== NO_GROUP) {
+        return chrome.tabs.query({ groupId: request.groupId });
+    }
+    if (request.windowId !== undefined) {
+        return chrome.tabs.query({ windowId: request.windowId });
+    }
+    return chrome.tabs.query({ currentWindow: true });
+}
+
+// Closing every tab would close the window (and the side panel with it)
+async function closeTabs(tabs: chrome.tabs.Tab[]): Promise<void> {
+    const ids = tabs.map(t => t.id).filter((id): id is number => id !== undefined);
+    if (ids.length === 0) return;
+
+    const windowId = tabs[0].windowId;
+    const remaining = await chrome.tabs.query({ windowId });
+    if (remaining.every(t => t.id !== undefined && ids.includes(t.id))) {
+        await chrome.tabs.create({ windowId, active: true });
+    }
+
+    await chrome.tabs.remove(ids);
+}
+
+export async function captureTabs(request: TabCaptureRequest): Promise<TabCaptureResult> {
+    const tabs = await queryTabs(request);
+    const webTabs = tabs.filter(isWebTab);
+
+    // Extract first: page canonical links decide what counts as a duplicate
+    const reads = await mapWithConcurrency(webTabs, EXTRACTION_CONCURRENCY, tab =>
+        tab.discarded ? Promise.resolve<PageRead>({ payload: null }) : readTab(tab)
+    );
+    const payloads = reads.map(read => read.payload);
+
+    const drafts: CardDraft[] = webTabs.map((tab, i) => ({
+        sourceContent: tab.url!,
+        sourceType: 'url',
+        platformName: new URL(tab.url!).hostname,
+        extractedTitle: payloads[i]?.title || tab.title,
+        canonicalUrl: canonicalizeUrl(tab.url!, payloads[i]?.canonicalUrl),
+        estimatedReadMinutes: reads[i].readMinutes,
+        analysisStatus: 'pending',
+    }));
+
+    const store = useCardStore.getState();
+    await store.loadCards();
+    const results = await store.captureCards(drafts);
+
+    // Page content is in hand; the tabs are no longer needed
+    if (request.closeTabs) {
+        await closeTabs(webTabs);
+    }
+
+    // Analysis runs after the response so the caller is not held for minutes
+    const fresh = results.flatMap((result, i) =>
+        result.status === 'added' ? [{ cardId: result.card.id, payload: payloads[i] }] : []);
+    queueAnalyses(fresh);
+
+    return {
+        captured: fresh.length,
+        duplicates: results.filter(result => result.status === 'merged').length,
+        skipped: tabs.length - webTabs.length,
+        held: results.filter(result => result.status === 'held').length,
+    };
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import styles from './SettingsSection.module.css';
+import { aiService, DEFAULT_AI_SETTINGS } from '../services/ai-service';
+import { ensureHostPermission, originPattern } from '../services/providers/openai-compatible';
+import { listGeminiModels, modelChain } from '../services/providers/gemini';
+import type { AISettings, ProviderId } from '../services/providers/types';
+
+type PanelStatus = { type: 'idle' | 'loading' | 'success' | 'error'; message?: string };
+
+const PROVIDERS: { id: ProviderId; label: string }[] = [
+    { id: 'gemini', label: 'GEMINI' },
+    { id: 'openai', label: 'OPENAI-COMPATIBLE' },
+    { id: 'mock', label: 'OFFLINE MOCK' },
+];
+
+export default function AIProviderPanel() {
+    const [settings, setSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+    const [geminiKey, setGeminiKey] = useState('');
+    const [geminiModels, setGeminiModels] = useState<string[] | null>(null);
+    const [status, setStatus] = useState<PanelStatus>({ type: 'idle' });
+
+    useEffect(() => {
+        aiService.getSettings().then(setSettings);
+        aiService.getApiKey().then(key => {
+            setGeminiKey(key || '');
+            if (key) listGeminiModels(key).then(setGeminiModels);
+        });
+    }, []);
+
+    const refreshModels = async () => {
+        if (!geminiKey.trim()) return;
+        const models = await listGeminiModels(geminiKey.trim(), true);
+        setGeminiModels(models);
+        if (!models) setStatus({ type: 'error', message: 'Model list unavailable. Check the key.' });
+    };
+
+    const updateOpenAI = (updates: Partial<AISettings['openai']>) =>
+        setSettings({ ...settings, openai: { ...settings.openai, ...updates } });
+
+    // Saves, then sends one short analysis through the selected backend
+    const handleSave = async () => {
+        setStatus({ type: 'loading' });
+
+        if (settings.provider === 'openai') {
+            if (!originPattern(settings.openai.baseUrl)) {
+                setStatus({ type: 'error', message: 'Base URL must be an http(s) address.' });
+                return;
+            }
+            // Requested here: permission prompts need the click
+            if (!await ensureHostPermission(settings.openai.baseUrl)) {
+                setStatus({ type: 'error', message: 'No access to that host. Permission was not granted.' });
+                return;
+            }
+        }
+        if (settings.provider === 'gemini' && geminiKey.trim()) {
+            await aiService.setApiKey(geminiKey.trim());
+        }
+        await aiService.setSettings(settings);
+
+        try {
+            // Forced: a cached answer would not prove the backend is reachable
+            await aiService.analyzeText('Connection check. Reply with the requested JSON.', { force: true });
+            setStatus({ type: 'success', message: 'SAVED. BACKEND RESPONDED.' });
+        } catch (error) {
+            const message = (error as Error).message;
+            setStatus({
+                type: 'error',
+                message: message === 'API_KEY_MISSING' ? 'Saved. Gemini needs an API key.' : `Saved, but the backend failed: ${message}`
+            });
+        }
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.title}>AI_BACKEND</div>
+
+            <div className={styles.segmented}>
+                {PROVIDERS.map(provider => (
+                    <button
+                        key={provider.id}
+                        onClick={() => setSettings({ ...settings, provider: provider.id })}
+                        className={clsx(styles.segment, settings.provider === provider.id && styles.segmentActive)}
+                    >
+                        {provider.label}
+                    </button>
+                ))}
+            </div>
+
+            {settings.provider === 'gemini' && (
+                <>
+                    <div className={styles.field}>
+                        <label className={styles.label}>GEMINI API KEY</label>
+                        <input
+                            type="password"
+                            value={geminiKey}
+                            onChange={(e) => setGeminiKey(e.target.value)}
+                            className={styles.input}
+                            placeholder="AIza..."
+                        />
+                    </div>
+                    <div className={styles.field}>
+                        <label className={styles.label}>MODEL</label>
+                        <select
+                            value={settings.gemini.model}
+                            onChange={(e) => setSettings({ ...settings, gemini: { model: e.target.value } })}
+                            className={styles.select}
+                        >
+                            <option value="">AUTOMATIC</option>
+                            {/* A saved choice stays selectable while the list is unknown */}
+                            {[...new Set([...(geminiModels || []), settings.gemini.model].filter(Boolean))].map(model => (
+                                <option key={model} value={model}>{model}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <button onClick={refreshModels} disabled={!geminiKey.trim()} className={styles.actionBtn}>
+                        REFRESH_MODELS
+                    </button>
+                    <p className={styles.hint}>
+                        Falls back in order on 404, 429 and 5xx: {modelChain(settings.gemini.model, geminiModels).join(' → ')}.
+                    </p>
+                </>
+            )}
+
+            {settings.provider === 'openai' && (
+                <>
+                    <div className={styles.field}>
+                        <label className={styles.label}>BASE URL</label>
+                        <input
+                            value={settings.openai.baseUrl}
+                            onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+                            className={styles.input}
+                            placeholder="http://localhost:11434/v1"
+                        />
+                    </div>
+                    <div className={styles.field}>
+                        <label className={styles.label}>MODEL</label>
+                        <input
+                            value={settings.openai.model}
+                            onChange={(e) => updateOpenAI({ model: e.target.value })}
+                            className={styles.input}
+                            placeholder="llama3.1"
+                        />
+                    </div>
+                    <div className={styles.field}>
+                        <label className={styles.label}>EMBEDDING MODEL (OPTIONAL)</label>
+                        <input
+                            value={settings.openai.embeddingModel || ''}
+                            onChange={(e) => updateOpenAI({ embeddingModel: e.target.value || undefined })}
+                            className={styles.input}
+                            placeholder="nomic-embed-text"
+                        />
+                    </div>
+                    <div className={styles.field}>
+                        <label className={styles.label}>API KEY (OPTIONAL)</label>
+                        <input
+                            type="password"
+                            value={settings.openai.apiKey || ''}
+                            onChange={(e) => updateOpenAI({ apiKey: e.target.value || undefined })}
+                            className={styles.input}
+                        />
+                    </div>
+                    <p className={styles.hint}>
+                        Any /v1/chat/completions server. Ollama rejects extension origins unless started with
+                        OLLAMA_ORIGINS=chrome-extension://*. Only images are sent as files; documents go as extracted text.
+                        Clusters use /v1/embeddings with the embedding model, or the chat model when none is set.
+                    </p>
+                </>
+            )}
+
+            {settings.provider === 'mock' && (
+                <p className={styles.hint}>
+                    No network. Titles and summaries are derived from the captured text. Same input, same output.
+                </p>
+            )}
+
+            <button onClick={handleSave} disabled={status.type === 'loading'} className={styles.actionBtn}>
+                {status.type === 'loading' ? 'CHECKING...' : 'SAVE_BACKEND'}
+            </button>
+
+            {status.message && (
+                <div className={clsx(styles.status, status.type === 'error' && styles.statusError)}>
+                    {status.message}
+                </div>
+            )}
+        </div>
+    );
+}
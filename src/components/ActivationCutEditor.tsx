@@ -0,0 +1,56 @@
+import styles from './ActivationCutEditor.module.css';
+import { MAX_CUT_MINUTES, MIN_CUT_MINUTES, clampCutMinutes, type ActivationCut } from '../lib/activation-cut';
+
+export type CutStatus = 'generating' | 'ready' | 'failed';
+
+interface ActivationCutEditorProps {
+    cut: ActivationCut;
+    status: CutStatus;
+    onChange: (cut: ActivationCut) => void;
+}
+
+export default function ActivationCutEditor({ cut, status, onChange }: ActivationCutEditorProps) {
+    return (
+        <div className={styles.editor}>
+            <div className={styles.header}>
+                ACTIVATION CUT
+                <span className={styles.status}>
+                    {status === 'generating' ? 'CUTTING...' : status === 'failed' ? 'AI UNAVAILABLE. WRITE IT.' : 'EDITABLE'}
+                </span>
+            </div>
+
+            <label className={styles.field}>
+                <span className={styles.label}>START</span>
+                <input
+                    value={cut.startAction}
+                    onChange={(e) => onChange({ ...cut, startAction: e.target.value })}
+                    className={styles.input}
+                    placeholder="Open ... and ..."
+                />
+            </label>
+
+            <label className={styles.field}>
+                <span className={styles.label}>STOP WHEN</span>
+                <input
+                    value={cut.stopRule}
+                    onChange={(e) => onChange({ ...cut, stopRule: e.target.value })}
+                    className={styles.input}
+                    placeholder="Stop when ..."
+                />
+            </label>
+
+            <label className={styles.fieldInline}>
+                <span className={styles.label}>MINUTES</span>
+                <input
+                    type="range"
+                    min={MIN_CUT_MINUTES}
+                    max={MAX_CUT_MINUTES}
+                    value={cut.durationMinutes}
+                    onChange={(e) => onChange({ ...cut, durationMinutes: clampCutMinutes(Number(e.target.value)) })}
+                    className={styles.range}
+                />
+                <span className={styles.minutes}>{cut.durationMinutes}</span>
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import styles from './SettingsSection.module.css';
+import queueStyles from './AnalysisQueuePanel.module.css';
+import { storage } from '../lib/storage';
+import { sendRuntimeMessage } from '../lib/messages';
+import { ANALYSIS_QUEUE_KEY, getAnalysisJobs, type AnalysisJob } from '../lib/analysis-queue';
+import { useCardStore } from '../store/card-store';
+
+const STATUS_LABELS: Record<AnalysisJob['status'], string> = {
+    queued: 'QUEUED',
+    running: 'ANALYSING',
+    blocked: 'BLOCKED: NO KEY',
+    failed: 'FAILED',
+};
+
+function describeJob(job: AnalysisJob): string {
+    const attempts = job.attempts > 0 ? ` · ${job.attempts} ATTEMPT${job.attempts === 1 ? '' : 'S'}` : '';
+    if (job.status !== 'queued' || job.nextAttemptAt <= Date.now()) return STATUS_LABELS[job.status] + attempts;
+    const minutes = Math.max(1, Math.round((job.nextAttemptAt - Date.now()) / 60_000));
+    return `RETRY IN ${minutes} MIN${attempts}`;
+}
+
+// Read-only view: the service worker owns the queue, this panel only asks it to retry
+export default function AnalysisQueuePanel() {
+    const cards = useCardStore(state => state.cards);
+    const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+
+    useEffect(() => {
+        getAnalysisJobs().then(setJobs);
+        return storage.watch<AnalysisJob[] | null>(ANALYSIS_QUEUE_KEY, value => setJobs(value || []));
+    }, []);
+
+    const titleOf = (cardId: string) => {
+        const card = cards.find(c => c.id === cardId);
+        return card ? card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80) : null;
+    };
+    const visible = jobs.filter(job => titleOf(job.cardId) !== null);
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.title}>ANALYSIS_QUEUE</div>
+
+            {visible.length === 0 ? (
+                <p className={styles.hint}>Empty. Every capture is analysed.</p>
+            ) : (
+                <div className={queueStyles.jobs}>
+                    {visible.map(job => (
+                        <div
+                            key={job.cardId}
+                            className={clsx(queueStyles.job, (job.status === 'failed' || job.status === 'blocked') && queueStyles.jobFailed)}
+                        >
+                            <div className={queueStyles.jobTitle}>{titleOf(job.cardId)}</div>
+                            <div className={queueStyles.jobMeta}>{describeJob(job)}</div>
+                            {job.lastError && <div className={queueStyles.jobError}>{job.lastError}</div>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button
+                onClick={() => sendRuntimeMessage({ type: 'cutoff:retry-all-analyses' })}
+                disabled={!visible.some(job => job.status !== 'running')}
+                className={styles.actionBtn}
+            >
+                RETRY_ALL
+            </button>
+
+            <p className={styles.hint}>
+                Failed and offline analyses are kept and retried in the background, also after a browser restart.
+            </p>
+        </div>
+    );
+}
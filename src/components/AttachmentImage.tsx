@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import styles from './AttachmentImage.module.css';
+import type { AttachmentRef } from '../lib/types';
+import { attachmentDataUrl, loadAttachment } from '../lib/attachments';
+
+interface AttachmentImageProps {
+    attachment: AttachmentRef;
+    alt: string;
+}
+
+export default function AttachmentImage({ attachment, alt }: AttachmentImageProps) {
+    const [src, setSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadAttachment(attachment.id).then(stored => {
+            if (!cancelled) setSrc(stored ? attachmentDataUrl(stored) : null);
+        });
+        return () => { cancelled = true; };
+    }, [attachment.id]);
+
+    if (!src) {
+        return <div className={styles.placeholder} style={{ aspectRatio: `${attachment.width} / ${attachment.height}` }} />;
+    }
+    return <img src={src} alt={alt} className={styles.image} width={attachment.width} height={attachment.height} />;
+}
@@ -1,34 +1,88 @@
 /// <reference types="chrome"/>
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import styles from './CaptureModal.module.css';
-import { X, Link as LinkIcon, FileText, Sparkles, Upload, Key, File as FileIcon, Trash2 } from 'lucide-react';
+import { X, Link as LinkIcon, FileText, Sparkles, Upload, Key, File as FileIcon, Trash2, List } from 'lucide-react';
 import clsx from 'clsx';
 import { aiService } from '../services/ai-service';
-import { extractPageContext, type ExtractionPayload } from '../lib/content-extractor';
-import { fetchPageMetadata } from '../lib/metadata-fetcher';
+import { analyzeFile, analyzeLink, analyzeText, filePayload } from '../lib/capture-analysis';
+import type { ExtractionPayload } from '../lib/content-extractor';
+import type { CardDraft, Category } from '../lib/types';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import { parseCaptureList, type ListItem } from '../lib/list-parser';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { AIOutputError } from '../services/analysis-schema';
+import type { CaptureResult } from '../store/card-store';
 
 interface CaptureModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (content: string, type: 'url' | 'text' | 'file', platform?: string, title?: string, aiSummary?: string, category?: string) => Promise<void>;
+    onSave: (draft: CardDraft, payload?: ExtractionPayload) => Promise<void>;
+    onSaveBatch: (drafts: CardDraft[]) => Promise<CaptureResult[]>;
 }
 
+// One pasted list item, previewed as its own pending card
+interface ListCapture extends ListItem {
+    selected: boolean;
+    status: 'pending' | 'analyzing' | 'done' | 'failed';
+    title?: string;
+    summary?: string;
+    category?: Category;
+    model?: string;
+    startAction?: string;
+    canonicalHint?: string;
+    error?: string;
+}
+
+interface AnalysisFailure {
+    title: string;
+    detail: string;
+}
+
+const describeFailure = (error: unknown): AnalysisFailure => error instanceof AIOutputError
+    ? { title: 'AI OUTPUT REJECTED', detail: `${error.issues.join('. ')}. Nothing was guessed in its place.` }
+    : !navigator.onLine
+        ? { title: 'OFFLINE', detail: 'No network. Saved captures are analysed once the connection returns.' }
+        : { title: 'ANALYSIS FAILED', detail: 'System communication failed. Retry now, or save and let the queue retry it.' };
+
 type Tab = 'link' | 'text' | 'file';
 
-export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalProps) {
+const LIST_ANALYSIS_CONCURRENCY = 3;
+
+const hostnameOf = (url: string) => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return undefined;
+    }
+};
+
+export default function CaptureModal({ isOpen, onClose, onSave, onSaveBatch }: CaptureModalProps) {
     const [activeTab, setActiveTab] = useState<Tab>('link');
     const [input, setInput] = useState('');
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [analyzedData, setAnalyzedData] = useState<{ title: string; summary: string; category?: string } | null>(null);
+    const [analyzedData, setAnalyzedData] = useState<{ title: string; summary: string; category?: Category; startAction?: string; model?: string } | null>(null);
+    const [readMinutes, setReadMinutes] = useState<number | undefined>(undefined);
+    const [canonicalHint, setCanonicalHint] = useState<string | undefined>(undefined);
     const [showApiKeyInput, setShowApiKeyInput] = useState(false);
     const [apiKey, setApiKey] = useState('');
+    const [listItems, setListItems] = useState<ListCapture[] | null>(null);
+    const [analysisError, setAnalysisError] = useState<AnalysisFailure | null>(null);
+    const [listSaved, setListSaved] = useState<{ saved: number; held: number } | null>(null);
+    // Deselected while analysis runs: skipped, not analysed
+    const deselected = useRef(new Set<number>());
 
     useEffect(() => {
         if (isOpen) {
             setInput('');
             setSelectedFile(null);
             setAnalyzedData(null);
+            setReadMinutes(undefined);
+            setCanonicalHint(undefined);
+            setListItems(null);
+            setListSaved(null);
+            setAnalysisError(null);
+            deselected.current.clear();
             setIsAnalyzing(false);
             setShowApiKeyInput(false);
 
@@ -50,106 +104,87 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
         }
     };
 
-    const readFileAsBase64 = (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = () => {
-                const result = reader.result as string;
-                // Remove data URL prefix (e.g. "data:image/png;base64,")
-                const base64 = result.split(',')[1];
-                resolve(base64);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(file);
+    const patchListItem = (index: number, updates: Partial<ListCapture>) =>
+        setListItems(items => items && items.map((item, i) => i === index ? { ...item, ...updates } : item));
+
+    // Each item is analysed on its own; a missing key stops the rest and asks for one
+    const analyzeList = async (items: ListCapture[]) => {
+        setIsAnalyzing(true);
+        let keyMissing = false;
+
+        await mapWithConcurrency(items, LIST_ANALYSIS_CONCURRENCY, async (item, index) => {
+            if (item.status === 'done' || keyMissing || deselected.current.has(index)) return;
+            patchListItem(index, { status: 'analyzing' });
+            try {
+                const { result, canonicalHint } = item.kind === 'url'
+                    ? await analyzeLink(item.content)
+                    : await analyzeText(item.content);
+                patchListItem(index, {
+                    status: 'done',
+                    title: result.title,
+                    summary: result.summary,
+                    category: result.category,
+                    model: result.model,
+                    startAction: result.startAction || undefined,
+                    canonicalHint,
+                });
+            } catch (error) {
+                if ((error as Error).message === 'API_KEY_MISSING') keyMissing = true;
+                patchListItem(index, keyMissing ? { status: 'pending' } : { status: 'failed', error: describeFailure(error).title });
+            }
         });
+
+        setIsAnalyzing(false);
+        if (keyMissing) setShowApiKeyInput(true);
+    };
+
+    const toggleListItem = (index: number) => {
+        if (!listItems) return;
+        const selected = !listItems[index].selected;
+        if (selected) deselected.current.delete(index);
+        else deselected.current.add(index);
+        patchListItem(index, { selected });
     };
 
     const performAnalysis = async () => {
         if ((activeTab === 'link' || activeTab === 'text') && !input.trim()) return;
         if (activeTab === 'file' && !selectedFile) return;
 
+        const list = activeTab === 'text' ? parseCaptureList(input) : null;
+        if (list) {
+            const items: ListCapture[] = list.map(item => ({ ...item, selected: true, status: 'pending' }));
+            deselected.current.clear();
+            setListItems(items);
+            await analyzeList(items);
+            return;
+        }
+
         setIsAnalyzing(true);
         setAnalyzedData(null);
+        setAnalysisError(null);
 
         try {
-            let result;
-            if (activeTab === 'link') {
-                let payload: ExtractionPayload | null = null;
-                try {
-                    const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
-                    const activeTab = tabs[0];
-                    if (activeTab?.id && (activeTab.url === input || input === activeTab.url)) {
-                        const injection = await chrome.scripting.executeScript({
-                            target: { tabId: activeTab.id },
-                            func: extractPageContext
-                        });
-                        if (injection?.[0]?.result) {
-                            payload = injection[0].result as ExtractionPayload;
-                        }
-                    }
-                } catch {
-                    // Ignore content extraction failures
-                }
-
-                if (payload) {
-                    result = await aiService.analyzeContent(payload);
-                } else {
-                    // Manual paste or different tab - Fetch metadata!
-                    const metadata = await fetchPageMetadata(input);
-                    if (metadata.error) {
-                        // Fallback to simple URL analysis if fetch fails
-                        result = await aiService.analyzeUrl(input);
-                    } else {
-                        result = await aiService.analyzeContent({
-                            url: input,
-                            platform: 'web',
-                            title: metadata.title || 'Link',
-                            rawText: metadata.rawText || `URL: ${input}`,
-                            metadata: { description: metadata.description }
-                        });
-                    }
-                }
-
-            } else if (activeTab === 'file' && selectedFile) {
-                // FILE ANALYSIS
-                const base64Data = await readFileAsBase64(selectedFile);
-
-                const payload: ExtractionPayload = {
-                    url: 'file://' + selectedFile.name,
-                    platform: 'file',
-                    title: selectedFile.name,
-                    rawText: `File: ${selectedFile.name} (${selectedFile.type}, ${(selectedFile.size / 1024).toFixed(1)} KB)`,
-                    metadata: {
-                        size: selectedFile.size,
-                        lastModified: selectedFile.lastModified
-                    },
-                    fileData: {
-                        mimeType: selectedFile.type,
-                        data: base64Data
-                    }
-                };
-                result = await aiService.analyzeContent(payload);
-
-            } else {
-                result = await aiService.analyzeText(input);
-            }
+            const { result, readMinutes, canonicalHint } =
+                activeTab === 'link' ? await analyzeLink(input)
+                : activeTab === 'file' && selectedFile ? await analyzeFile(selectedFile)
+                : await analyzeText(input);
+            setReadMinutes(readMinutes);
+            setCanonicalHint(canonicalHint);
 
             setAnalyzedData({
                 title: result.title,
                 summary: result.summary,
-                category: result.category
+                category: result.category,
+                startAction: result.startAction || undefined,
+                model: result.model
             });
             setShowApiKeyInput(false);
 
         } catch (error) {
-            const err = error as Error;
-            if (err.message === 'API_KEY_MISSING') {
+            if ((error as Error).message === 'API_KEY_MISSING') {
                 setShowApiKeyInput(true);
             } else {
-                setAnalyzedData({
-                    title: 'Analysis Error',
-                    summary: 'System communication failed. Try again or check your connection.'
-                });
+                setAnalysisError(describeFailure(error));
             }
         } finally {
             setIsAnalyzing(false);
@@ -160,10 +195,35 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
         if (!apiKey.trim()) return;
         await aiService.setApiKey(apiKey.trim());
         setShowApiKeyInput(false);
-        performAnalysis();
+        if (listItems) analyzeList(listItems);
+        else performAnalysis();
     };
 
-    const handleSave = async () => {
+    // Unanalysed items are saved pending; the service worker picks them up
+    const handleSaveList = async () => {
+        if (!listItems) return;
+        const results = await onSaveBatch(listItems.filter(item => item.selected).map(item => ({
+            sourceContent: item.content,
+            sourceType: item.kind,
+            platformName: item.kind === 'url' ? hostnameOf(item.content) : undefined,
+            canonicalUrl: item.kind === 'url' ? canonicalizeUrl(item.content, item.canonicalHint) : undefined,
+            extractedTitle: item.title || item.label,
+            aiTitle: item.title,
+            aiSummary: item.summary,
+            category: item.category,
+            aiModel: item.model,
+            startAction: item.startAction?.trim() || undefined,
+            analysisStatus: item.status === 'done' ? 'done' : 'pending',
+        })));
+
+        // Held items are not lost, but the user must know they did not land
+        const held = results.filter(result => result.status === 'held').length;
+        if (held === 0) onClose();
+        else setListSaved({ saved: results.length - held, held });
+    };
+
+    // Queued: saved unanalysed, the service worker analyses it once the AI is reachable
+    const handleSave = async (queueAnalysis = false) => {
         let saveContent = input;
         let saveType: 'url' | 'text' | 'file' = activeTab === 'link' ? 'url' : 'text';
         let saveTitle = analyzedData?.title;
@@ -176,19 +236,33 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
             if (!saveTitle) saveTitle = selectedFile.name;
         }
 
-        await onSave(
-            saveContent,
-            saveType,
-            activeTab === 'link' ? new URL(input).hostname : undefined,
-            saveTitle,
-            saveSummary,
-            saveCategory
-        );
+        // The worker cannot reopen a picked file: its content travels with the job
+        const payload = queueAnalysis && activeTab === 'file' && selectedFile
+            ? await filePayload(selectedFile).then(file => file.payload, () => undefined)
+            : undefined;
+
+        await onSave({
+            sourceContent: saveContent,
+            sourceType: saveType,
+            platformName: activeTab === 'link' ? new URL(input).hostname : undefined,
+            canonicalUrl: activeTab === 'link' ? canonicalizeUrl(input, canonicalHint) : undefined,
+            extractedTitle: saveTitle,
+            aiTitle: saveTitle,
+            aiSummary: saveSummary,
+            category: saveCategory,
+            aiModel: analyzedData?.model,
+            estimatedReadMinutes: activeTab !== 'text' ? readMinutes : undefined,
+            startAction: analyzedData?.startAction?.trim() || undefined,
+            analysisStatus: queueAnalysis ? 'pending' : analyzedData ? 'done' : undefined,
+        }, payload);
         onClose();
     };
 
     if (!isOpen) return null;
 
+    const detectedList = activeTab === 'text' && !listItems ? parseCaptureList(input) : null;
+    const selectedCount = listItems?.filter(item => item.selected).length ?? 0;
+
     if (showApiKeyInput) {
         return (
             <div className={styles.overlay}>
@@ -247,7 +321,7 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                 <div className={styles.tabs}>
                     <button
                         className={clsx(styles.tab, activeTab === 'link' && styles.activeTab)}
-                        onClick={() => { setActiveTab('link'); setAnalyzedData(null); }}
+                        onClick={() => { setActiveTab('link'); setAnalyzedData(null); setListItems(null); setAnalysisError(null); }}
                         aria-label="Capture from Link"
                     >
                         <LinkIcon size={14} style={{ display: 'inline', marginRight: 6 }} aria-hidden="true" />
@@ -255,7 +329,7 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                     </button>
                     <button
                         className={clsx(styles.tab, activeTab === 'text' && styles.activeTab)}
-                        onClick={() => { setActiveTab('text'); setAnalyzedData(null); }}
+                        onClick={() => { setActiveTab('text'); setAnalyzedData(null); setListItems(null); setAnalysisError(null); }}
                         aria-label="Capture from Text"
                     >
                         <FileText size={14} style={{ display: 'inline', marginRight: 6 }} aria-hidden="true" />
@@ -263,7 +337,7 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                     </button>
                     <button
                         className={clsx(styles.tab, activeTab === 'file' && styles.activeTab)}
-                        onClick={() => { setActiveTab('file'); setAnalyzedData(null); }}
+                        onClick={() => { setActiveTab('file'); setAnalyzedData(null); setListItems(null); setAnalysisError(null); }}
                         aria-label="Capture from File"
                     >
                         <Upload size={14} style={{ display: 'inline', marginRight: 6 }} aria-hidden="true" />
@@ -330,13 +404,22 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                                 )}
                             </div>
                         ) : activeTab === 'text' ? (
-                            <textarea
-                                value={input}
-                                onChange={(e) => setInput(e.target.value)}
-                                className={styles.textarea}
-                                placeholder="Paste text here..."
-                                autoFocus
-                            />
+                            <>
+                                <textarea
+                                    value={input}
+                                    onChange={(e) => setInput(e.target.value)}
+                                    className={styles.textarea}
+                                    placeholder="Paste text here..."
+                                    disabled={!!listItems}
+                                    autoFocus
+                                />
+                                {detectedList && (
+                                    <div className={styles.listHint}>
+                                        <List size={12} aria-hidden="true" />
+                                        LIST DETECTED: {detectedList.length} ITEMS. EACH BECOMES ITS OWN CARD.
+                                    </div>
+                                )}
+                            </>
                         ) : (
                             <input
                                 type="text"
@@ -349,6 +432,48 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                         )}
                     </div>
 
+                    {analysisError && (
+                        <div className={styles.errorBox} role="alert">
+                            <div className={styles.errorTitle}>{analysisError.title}</div>
+                            <div className={styles.errorDetail}>{analysisError.detail}</div>
+                        </div>
+                    )}
+
+                    {listItems && (
+                        <div className={styles.preview}>
+                            <div className={styles.aiHeader}>
+                                <Sparkles size={12} aria-label="AI Power" /> {selectedCount} OF {listItems.length} SELECTED
+                            </div>
+
+                            <ul className={styles.listPreview}>
+                                {listItems.map((item, index) => (
+                                    <li key={index} className={clsx(styles.listItem, !item.selected && styles.listItemOff)}>
+                                        <input
+                                            type="checkbox"
+                                            checked={item.selected}
+                                            onChange={() => toggleListItem(index)}
+                                            aria-label={`Include ${item.title || item.label || item.content}`}
+                                        />
+                                        <div className={styles.listItemBody}>
+                                            <div className={styles.listItemTitle}>
+                                                {item.title || item.label || item.content}
+                                            </div>
+                                            <div className={styles.listItemMeta}>
+                                                {item.kind === 'url' ? hostnameOf(item.content) || 'LINK' : 'TEXT'}
+                                                {' · '}
+                                                {item.status === 'done' ? item.category?.toUpperCase() || 'ANALYSED'
+                                                    : item.status === 'failed' ? item.error || 'ANALYSIS FAILED'
+                                                    : item.status === 'analyzing' ? 'ANALYSING...'
+                                                    : 'PENDING'}
+                                            </div>
+                                            {item.summary && <div className={styles.listItemSummary}>{item.summary}</div>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     {analyzedData && (
                         <div className={styles.preview}>
                             <div className={styles.aiHeader}>
@@ -373,26 +498,69 @@ export default function CaptureModal({ isOpen, onClose, onSave }: CaptureModalPr
                                     style={{ minHeight: '60px', resize: 'none' }}
                                 />
                             </div>
+
+                            {analyzedData.startAction !== undefined && (
+                                <div className={styles.previewField}>
+                                    <label className={styles.label}>START POINT</label>
+                                    <input
+                                        value={analyzedData.startAction}
+                                        onChange={(e) => setAnalyzedData({ ...analyzedData, startAction: e.target.value })}
+                                        className={styles.previewInput}
+                                    />
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
 
                 <div style={{ padding: 16, borderTop: '1px solid #222', display: 'flex', gap: 8 }}>
-                    {!analyzedData ? (
+                    {analysisError ? (
+                        <>
+                            <button onClick={() => handleSave(true)} className={styles.secondaryButton}>
+                                SAVE & QUEUE
+                            </button>
+                            <button onClick={performAnalysis} disabled={isAnalyzing} className={styles.analyzeButton} style={{ flex: 1 }}>
+                                {isAnalyzing ? <div className={styles.loader}></div> : 'RETRY ANALYSIS'}
+                            </button>
+                        </>
+                    ) : listSaved ? (
+                        <>
+                            <div className={styles.listHint} style={{ flex: 1 }}>
+                                {listSaved.saved} SAVED. {listSaved.held} HELD: INTAKE IS CLOSED.
+                            </div>
+                            <button onClick={onClose} className={styles.secondaryButton}>
+                                CLOSE
+                            </button>
+                        </>
+                    ) : listItems ? (
+                        <>
+                            <button onClick={() => setListItems(null)} className={styles.secondaryButton}>
+                                BACK
+                            </button>
+                            <button
+                                onClick={handleSaveList}
+                                disabled={selectedCount === 0}
+                                className={styles.analyzeButton}
+                                style={{ flex: 1 }}
+                            >
+                                SAVE {selectedCount} CARD{selectedCount === 1 ? '' : 'S'}
+                            </button>
+                        </>
+                    ) : !analyzedData ? (
                         <button
                             onClick={performAnalysis}
                             disabled={(activeTab !== 'file' && !input.trim()) || (activeTab === 'file' && !selectedFile) || isAnalyzing}
                             className={styles.analyzeButton}
                             style={{ flex: 1 }}
                         >
-                            {isAnalyzing ? <div className={styles.loader}></div> : 'ANALYZE & PREVIEW'}
+                            {isAnalyzing ? <div className={styles.loader}></div> : detectedList ? `ANALYZE ${detectedList.length} ITEMS` : 'ANALYZE & PREVIEW'}
                         </button>
                     ) : (
                         <>
                             <button onClick={() => setAnalyzedData(null)} className={styles.secondaryButton}>
                                 BACK
                             </button>
-                            <button onClick={handleSave} className={styles.analyzeButton} style={{ flex: 1 }}>
+                            <button onClick={() => handleSave()} className={styles.analyzeButton} style={{ flex: 1 }}>
                                 SAVE CARD
                             </button>
                         </>
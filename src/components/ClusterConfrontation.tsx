@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import clsx from 'clsx';
+import { Layers, Play, Trash } from 'lucide-react';
+import styles from './ClusterConfrontation.module.css';
+import { formatTimeSince, type Card } from '../lib/types';
+
+interface ClusterConfrontationProps {
+    cards: Card[];
+    onResolve: (executeId: string | null) => void;  // Null: all of them are closed
+    onCancel: () => void;
+}
+
+const titleOf = (card: Card) => card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80);
+
+// One intention saved several times: one version is executed, the others close with it
+export default function ClusterConfrontation({ cards, onResolve, onCancel }: ClusterConfrontationProps) {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const oldest = Math.min(...cards.map(card => card.createdAt));
+    const others = cards.length - 1;
+
+    return (
+        <div className={styles.container}>
+            <Layers size={32} color="var(--color-primary)" aria-hidden="true" />
+            <h2 className={styles.title}>{cards.length} VERSIONS OF ONE LOOP</h2>
+            <p className={styles.statement}>
+                First saved {formatTimeSince(oldest)}. One is executed. The rest close.
+            </p>
+
+            <div className={styles.options} role="radiogroup" aria-label="Loop to execute">
+                {cards.map(card => (
+                    <button
+                        key={card.id}
+                        role="radio"
+                        aria-checked={selectedId === card.id}
+                        onClick={() => setSelectedId(card.id)}
+                        className={clsx(styles.option, selectedId === card.id && styles.optionSelected)}
+                    >
+                        <span className={styles.optionTitle}>{titleOf(card)}</span>
+                        <span className={styles.optionMeta}>
+                            {card.category || card.sourceType.toUpperCase()} · {formatTimeSince(card.createdAt)}
+                            {card.state === 'shadowed' && ' · SHADOWED'}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            <div className={styles.buttons}>
+                <button onClick={() => selectedId && onResolve(selectedId)} disabled={!selectedId} className={styles.executeButton}>
+                    <Play size={16} aria-hidden="true" /> EXECUTE SELECTED
+                    <span className={styles.buttonHint}>
+                        {others} other{others === 1 ? '' : 's'} closed forever
+                    </span>
+                </button>
+                <button onClick={() => onResolve(null)} className={styles.discardButton}>
+                    <Trash size={16} aria-hidden="true" /> DISCARD ALL {cards.length}
+                    <span className={styles.buttonHint}>The whole intention closed</span>
+                </button>
+                <button onClick={onCancel} className={styles.ghostButton}>
+                    BACK
+                </button>
+            </div>
+        </div>
+    );
+}
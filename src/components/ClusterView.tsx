@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+import styles from './ClusterView.module.css';
+import { useCardStore } from '../store/card-store';
+import { ensureEmbeddings, embeddingTextOf } from '../lib/card-embeddings';
+import { clusterBySimilarity } from '../lib/clustering';
+import type { Card } from '../lib/types';
+
+interface ClusterViewProps {
+    onConfront: (cardIds: string[]) => void;
+}
+
+const DEFAULT_THRESHOLD = 0.8;
+
+const isOpenLoop = (card: Card) => card.state === 'uncommitted' || card.state === 'shadowed';
+
+const titleOf = (card: Card) => card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80);
+
+// The tag most members share names the group; the category when none is shared
+function labelOf(members: Card[]): string {
+    const counts = new Map<string, number>();
+    members.flatMap(card => card.aiTags || []).forEach(tag => {
+        const key = tag.toLowerCase();
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    const [tag, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+    return tag && count! > 1 ? tag : members[0].category || 'Related';
+}
+
+export default function ClusterView({ onConfront }: ClusterViewProps) {
+    const cards = useCardStore(state => state.cards);
+    const [vectors, setVectors] = useState<Map<string, number[]> | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+
+    const openCards = useMemo(() => cards.filter(isOpenLoop), [cards]);
+
+    // Re-embed only when what the open loops say changes, not on every state update
+    const signature = useMemo(
+        () => openCards.map(card => `${card.id}:${embeddingTextOf(card)}`).join('\n'),
+        [openCards]
+    );
+
+    useEffect(() => {
+        let cancelled = false;
+        ensureEmbeddings(useCardStore.getState().cards.filter(isOpenLoop))
+            .then(result => {
+                if (cancelled) return;
+                setVectors(result);
+                setError(null);
+            })
+            .catch((e: Error) => {
+                if (!cancelled) setError(e.message === 'API_KEY_MISSING' ? 'NO API KEY' : e.message);
+            });
+        return () => { cancelled = true; };
+    }, [signature]);
+
+    const clusters = useMemo(() => {
+        if (!vectors) return [];
+        const embedded = openCards
+            .filter(card => vectors.has(card.id))
+            .map(card => ({ id: card.id, vector: vectors.get(card.id)! }));
+        return clusterBySimilarity(embedded, threshold)
+            .map(ids => ids.map(id => openCards.find(card => card.id === id)!));
+    }, [vectors, openCards, threshold]);
+
+    if (error) {
+        return <div className={styles.empty}>EMBEDDINGS UNAVAILABLE: {error}</div>;
+    }
+    if (!vectors) {
+        return <div className={styles.empty}>EMBEDDING {openCards.length} OPEN LOOPS...</div>;
+    }
+
+    return (
+        <div className={styles.view}>
+            <label className={styles.threshold}>
+                SIMILARITY ≥ {threshold.toFixed(2)}
+                <input
+                    type="range"
+                    min={0.5}
+                    max={0.95}
+                    step={0.01}
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                />
+            </label>
+
+            {clusters.length === 0 ? (
+                <div className={styles.empty}>NO RELATED LOOPS AT THIS SIMILARITY.</div>
+            ) : (
+                clusters.map(members => (
+                    <div key={members[0].id} className={styles.cluster}>
+                        <div className={styles.header}>
+                            <span><Layers size={10} aria-hidden="true" /> {labelOf(members).toUpperCase()}</span>
+                            <span>{members.length} LOOPS</span>
+                        </div>
+                        <ul className={styles.members}>
+                            {members.map(card => (
+                                <li key={card.id} className={styles.member}>{titleOf(card)}</li>
+                            ))}
+                        </ul>
+                        <button onClick={() => onConfront(members.map(card => card.id))} className={styles.confrontBtn}>
+                            CONFRONT THIS CLUSTER
+                        </button>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import styles from './ExecuteMode.module.css';
 import type { Card } from '../lib/types';
-import { Shield, ShieldAlert, Lock, XCircle } from 'lucide-react';
+import { Shield, ShieldAlert, Lock, XCircle, ExternalLink } from 'lucide-react';
 
 interface ExecuteModeProps {
     card: Card;
@@ -22,6 +22,10 @@ const cleanDomain = (url: string) => {
     }
 };
 
+// Selection captures reopen at the passage; url captures at the page
+const sourceUrlOf = (card: Card) =>
+    card.sourceLocation?.fragmentUrl || (card.sourceType === 'url' ? card.sourceContent : undefined);
+
 export default function ExecuteMode({ card, onStop, onAbort, onStartTimer, onUpdateCard }: ExecuteModeProps) {
     const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
     const [timerStarted, setTimerStarted] = useState(!!card.executeStartedAt);
@@ -47,11 +51,15 @@ export default function ExecuteMode({ card, onStop, onAbort, onStartTimer, onUpd
         const suggestions = new Set<string>();
 
         // 1. From Source
-        if (card.sourceType === 'url') {
+        if (card.sourceLocation) {
+            const d = cleanDomain(card.sourceLocation.url);
+            if (d) suggestions.add(d);
+        } else if (card.sourceType === 'url') {
             const d = cleanDomain(card.sourceContent);
             if (d) suggestions.add(d);
         } else if (card.platformName) {
-            suggestions.add(card.platformName.toLowerCase() + '.com');
+            const platform = card.platformName.toLowerCase();
+            suggestions.add(platform.includes('.') ? platform.replace(/^www\./, '') : platform + '.com');
         }
 
         if (suggestions.size > 0) {
@@ -149,7 +157,17 @@ export default function ExecuteMode({ card, onStop, onAbort, onStartTimer, onUpd
         onStartTimer();
         setTimerStarted(true);
         setSetupMode(false);
-    }, [onStartTimer, onUpdateCard, allowedDomains]);
+
+        // The passage is the work: put it in front of the user
+        if (card.sourceLocation) {
+            chrome.tabs.create({ url: card.sourceLocation.fragmentUrl });
+        }
+    }, [onStartTimer, onUpdateCard, allowedDomains, card.sourceLocation]);
+
+    const openSource = () => {
+        const url = sourceUrlOf(card);
+        if (url) chrome.tabs.create({ url });
+    };
 
     const toggleDomain = (domain: string) => {
         if (allowedDomains.includes(domain)) {
@@ -273,6 +291,14 @@ export default function ExecuteMode({ card, onStop, onAbort, onStartTimer, onUpd
             <div className={styles.content}>
                 <div className={styles.source}>
                     {card.extractedTitle || card.sourceContent.slice(0, 100)}
+                    {card.sourceLocation && (
+                        <blockquote className={styles.excerpt}>{card.sourceLocation.excerpt.slice(0, 280)}</blockquote>
+                    )}
+                    {sourceUrlOf(card) && (
+                        <button onClick={openSource} className={styles.openSourceButton} aria-label="Open the source page">
+                            <ExternalLink size={12} aria-hidden="true" /> OPEN SOURCE
+                        </button>
+                    )}
                 </div>
 
                 <div className={styles.timerSection}>
@@ -0,0 +1,33 @@
+import styles from './ExtraContextList.module.css';
+import type { ExtraContext } from '../lib/types';
+import AttachmentImage from './AttachmentImage';
+
+interface ExtraContextListProps {
+    items: ExtraContext[];
+}
+
+export default function ExtraContextList({ items }: ExtraContextListProps) {
+    return (
+        <div className={styles.list}>
+            <div className={styles.label}>ATTACHED CONTEXT ({items.length})</div>
+            {items.map((item, index) => (
+                <div key={`${item.addedAt}-${index}`} className={styles.item}>
+                    {item.kind === 'url' ? (
+                        <a href={item.content} target="_blank" rel="noreferrer" className={styles.link}>
+                            {item.title || item.content}
+                        </a>
+                    ) : item.kind === 'image' && item.attachment ? (
+                        <AttachmentImage attachment={item.attachment} alt={item.content} />
+                    ) : item.kind === 'file' ? (
+                        <>
+                            <div className={styles.fileName}>{item.content}</div>
+                            {item.excerpt && <div className={styles.excerpt}>{item.excerpt}</div>}
+                        </>
+                    ) : (
+                        <blockquote className={styles.excerpt}>{item.content}</blockquote>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
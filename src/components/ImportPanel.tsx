@@ -0,0 +1,173 @@
+/// <reference types="chrome"/>
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import styles from './SettingsSection.module.css';
+import { useCardStore } from '../store/card-store';
+import { storage } from '../lib/storage';
+import {
+    IMPORT_SETTINGS_KEY,
+    entriesToDrafts,
+    listBookmarkFolders,
+    parseBookmarkCsv,
+    parseNetscapeBookmarks,
+    readBookmarkFolder,
+    type BookmarkFolder,
+    type ImportedEntry,
+    type ImportSettings,
+} from '../lib/importers';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import type { ImportSourceKind } from '../lib/types';
+
+type ImportMode = 'bookmarks' | 'file';
+
+type ImportStatus = { type: 'idle' | 'loading' | 'success' | 'error'; message?: string };
+
+export default function ImportPanel() {
+    const cards = useCardStore(state => state.cards);
+    const addCards = useCardStore(state => state.addCards);
+
+    const [mode, setMode] = useState<ImportMode>('bookmarks');
+    const [folders, setFolders] = useState<BookmarkFolder[]>([]);
+    const [folderId, setFolderId] = useState('');
+    const [deleteOnDecision, setDeleteOnDecision] = useState(false);
+    const [status, setStatus] = useState<ImportStatus>({ type: 'idle' });
+
+    useEffect(() => {
+        if (typeof chrome !== 'undefined' && chrome.bookmarks) {
+            listBookmarkFolders().then(list => {
+                setFolders(list);
+                const firstWithLinks = list.find(f => f.linkCount > 0);
+                if (firstWithLinks) setFolderId(firstWithLinks.id);
+            });
+        }
+        storage.get<ImportSettings>(IMPORT_SETTINGS_KEY).then(settings => {
+            if (settings) setDeleteOnDecision(settings.deleteSourceOnDecision);
+        });
+    }, []);
+
+    const importEntries = async (entries: ImportedEntry[], kind: ImportSourceKind) => {
+        // Links already in the system (any state) are not resurrected
+        const existing = new Set(
+            cards.filter(c => c.sourceType === 'url').map(c => c.canonicalUrl || canonicalizeUrl(c.sourceContent))
+        );
+        const drafts = entriesToDrafts(entries, kind, existing);
+        await addCards(drafts);
+
+        setStatus({
+            type: 'success',
+            message: `${drafts.length} IMPORTED. ${entries.length - drafts.length} ALREADY PRESENT.`
+        });
+    };
+
+    const handleImportFolder = async () => {
+        if (!folderId) return;
+        setStatus({ type: 'loading' });
+        try {
+            await importEntries(await readBookmarkFolder(folderId), 'chrome-bookmarks');
+        } catch {
+            setStatus({ type: 'error', message: 'Bookmark folder could not be read.' });
+        }
+    };
+
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setStatus({ type: 'loading' });
+        try {
+            const text = await file.text();
+            if (/\.csv$/i.test(file.name)) {
+                const parsed = parseBookmarkCsv(text);
+                if (!parsed) throw new Error('No url column');
+                await importEntries(parsed.entries, parsed.kind);
+            } else {
+                await importEntries(parseNetscapeBookmarks(text), 'netscape-html');
+            }
+        } catch {
+            setStatus({ type: 'error', message: 'Unrecognised export. Use bookmark HTML, Pocket CSV or Raindrop CSV.' });
+        }
+    };
+
+    const handleDeleteToggle = async (checked: boolean) => {
+        setDeleteOnDecision(checked);
+        await storage.set<ImportSettings>(IMPORT_SETTINGS_KEY, { deleteSourceOnDecision: checked });
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.title}>IMPORT_BACKLOG</div>
+
+            <div className={styles.segmented}>
+                <button
+                    onClick={() => setMode('bookmarks')}
+                    className={clsx(styles.segment, mode === 'bookmarks' && styles.segmentActive)}
+                >
+                    BOOKMARKS
+                </button>
+                <button
+                    onClick={() => setMode('file')}
+                    className={clsx(styles.segment, mode === 'file' && styles.segmentActive)}
+                >
+                    EXPORT FILE
+                </button>
+            </div>
+
+            {mode === 'bookmarks' ? (
+                <>
+                    <div className={styles.field}>
+                        <label className={styles.label}>FOLDER</label>
+                        <select
+                            value={folderId}
+                            onChange={(e) => setFolderId(e.target.value)}
+                            className={styles.select}
+                        >
+                            {folders.map(folder => (
+                                <option key={folder.id} value={folder.id}>
+                                    {folder.path} ({folder.linkCount})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <button
+                        onClick={handleImportFolder}
+                        disabled={!folderId || status.type === 'loading'}
+                        className={styles.actionBtn}
+                    >
+                        {status.type === 'loading' ? 'IMPORTING...' : 'IMPORT_FOLDER'}
+                    </button>
+                </>
+            ) : (
+                <div className={styles.field}>
+                    <label className={styles.label}>BOOKMARK HTML / POCKET CSV / RAINDROP CSV</label>
+                    <input
+                        type="file"
+                        accept=".html,.htm,.csv"
+                        onChange={handleFileSelect}
+                        className={styles.input}
+                        aria-label="Import file"
+                    />
+                </div>
+            )}
+
+            <label className={styles.checkbox}>
+                <input
+                    type="checkbox"
+                    checked={deleteOnDecision}
+                    onChange={(e) => handleDeleteToggle(e.target.checked)}
+                />
+                Delete the source bookmark once its card is decided
+            </label>
+
+            <p className={styles.hint}>
+                Cards keep their original save date. The age is not reset.
+            </p>
+
+            {status.message && (
+                <div className={clsx(styles.status, status.type === 'error' && styles.statusError)}>
+                    {status.message}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import styles from './SettingsSection.module.css';
+import { storage } from '../lib/storage';
+import {
+    DEFAULT_GATE_SETTINGS,
+    GATE_SETTINGS_KEY,
+    getGateSettings,
+    type GateSettings,
+} from '../lib/intake-gate';
+import type { SystemState } from '../lib/types';
+
+const GATEABLE_STATES: SystemState[] = ['turbulent', 'critical', 'deferred'];
+
+export default function IntakeGatePanel() {
+    const [settings, setSettings] = useState<GateSettings>(DEFAULT_GATE_SETTINGS);
+
+    useEffect(() => {
+        getGateSettings().then(setSettings);
+    }, []);
+
+    const update = async (updates: Partial<GateSettings>) => {
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        await storage.set<GateSettings>(GATE_SETTINGS_KEY, next);
+    };
+
+    const toggleState = (state: SystemState) => {
+        const gatedStates = settings.gatedStates.includes(state)
+            ? settings.gatedStates.filter(s => s !== state)
+            : [...settings.gatedStates, state];
+        update({ gatedStates });
+    };
+
+    const setNumber = (key: 'closuresRequired' | 'expiryHours', value: string) => {
+        const parsed = Math.max(1, Math.round(Number(value)));
+        if (Number.isFinite(parsed)) update({ [key]: parsed });
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.title}>INTAKE_GATE</div>
+
+            <label className={styles.checkbox}>
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                />
+                Hold new captures while the system is overloaded
+            </label>
+
+            <div className={styles.field}>
+                <label className={styles.label}>CLOSE THE GATE AT</label>
+                <div className={styles.segmented}>
+                    {GATEABLE_STATES.map(state => (
+                        <button
+                            key={state}
+                            onClick={() => toggleState(state)}
+                            className={clsx(styles.segment, settings.gatedStates.includes(state) && styles.segmentActive)}
+                        >
+                            {state.toUpperCase()}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={styles.field}>
+                <label className={styles.label}>LOOPS TO CLOSE BEFORE ADMISSION</label>
+                <input
+                    type="number"
+                    min={1}
+                    value={settings.closuresRequired}
+                    onChange={(e) => setNumber('closuresRequired', e.target.value)}
+                    className={styles.input}
+                />
+            </div>
+
+            <div className={styles.field}>
+                <label className={styles.label}>HELD CAPTURES EXPIRE AFTER (HOURS)</label>
+                <input
+                    type="number"
+                    min={1}
+                    value={settings.expiryHours}
+                    onChange={(e) => setNumber('expiryHours', e.target.value)}
+                    className={styles.input}
+                />
+            </div>
+
+            <label className={styles.checkbox}>
+                <input
+                    type="checkbox"
+                    checked={settings.strict}
+                    onChange={(e) => update({ strict: e.target.checked })}
+                />
+                Strict: only closed loops admit. Leaving the state does not.
+            </label>
+
+            <p className={styles.hint}>
+                Expired captures are deleted. They were not important enough to wait.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,88 @@
+/// <reference types="chrome"/>
+import { useEffect, useState } from 'react';
+import { Layers } from 'lucide-react';
+import styles from './TabCutBar.module.css';
+import { sendRuntimeMessage, type TabCaptureResult } from '../lib/messages';
+
+// chrome.tabGroups.TAB_GROUP_ID_NONE, without requiring the tabGroups permission
+const NO_GROUP = -1;
+
+// Bulk "cut off my tabs" for the window this side panel belongs to
+export default function TabCutBar() {
+    const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null);
+    const [closeTabs, setCloseTabs] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [result, setResult] = useState<TabCaptureResult | null>(null);
+
+    // The group button follows the active tab
+    useEffect(() => {
+        const refresh = () => chrome.tabs.query({ active: true, currentWindow: true }, tabs => setActiveTab(tabs[0] || null));
+        refresh();
+        chrome.tabs.onActivated.addListener(refresh);
+        chrome.tabs.onUpdated.addListener(refresh);
+        return () => {
+            chrome.tabs.onActivated.removeListener(refresh);
+            chrome.tabs.onUpdated.removeListener(refresh);
+        };
+    }, []);
+
+    const handleCut = async (byGroup: boolean) => {
+        if (!activeTab) return;
+        setBusy(true);
+        setResult(null);
+        const response = await sendRuntimeMessage<TabCaptureResult>({
+            type: 'cutoff:capture-tabs',
+            request: {
+                windowId: activeTab.windowId,
+                groupId: byGroup ? activeTab.groupId : undefined,
+                closeTabs,
+            }
+        });
+        setResult(response || { captured: 0, duplicates: 0, skipped: 0, held: 0, error: 'No response from the extension' });
+        setBusy(false);
+    };
+
+    const isGrouped = activeTab?.groupId !== undefined && activeTab.groupId !== NO_GROUP;
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.row}>
+                <button
+                    onClick={() => handleCut(false)}
+                    disabled={busy || !activeTab}
+                    className={styles.cutButton}
+                    aria-label="Capture every tab in this window"
+                >
+                    <Layers size={12} aria-hidden="true" /> CUT OFF WINDOW
+                </button>
+                {isGrouped && (
+                    <button
+                        onClick={() => handleCut(true)}
+                        disabled={busy}
+                        className={styles.cutButton}
+                        aria-label="Capture every tab in this tab group"
+                    >
+                        <Layers size={12} aria-hidden="true" /> CUT OFF GROUP
+                    </button>
+                )}
+                <label className={styles.option}>
+                    <input
+                        type="checkbox"
+                        checked={closeTabs}
+                        onChange={(e) => setCloseTabs(e.target.checked)}
+                    />
+                    CLOSE TABS
+                </label>
+            </div>
+            {busy && <div className={styles.status}>CUTTING TABS...</div>}
+            {result && (result.error ? (
+                <div className={styles.status} title={result.error}>TAB CAPTURE FAILED.</div>
+            ) : (
+                <div className={styles.status}>
+                    {result.captured} TABS CUT. {result.duplicates} ALREADY OPEN. {result.skipped} NOT CAPTURABLE.
+                    {result.held > 0 && ` ${result.held} HELD: INTAKE IS CLOSED.`}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { Check, SkipForward, X } from 'lucide-react';
+import styles from './TriageMode.module.css';
+import { useCardStore } from '../store/card-store';
+import { aiService } from '../services/ai-service';
+import { fallbackProposal, triageInputOf, TRIAGE_DECISIONS, type TriageDecision, type TriageProposal } from '../lib/triage';
+import { formatTimeSince, type Card } from '../lib/types';
+import { activationInputOf, fallbackCut, type ActivationCut } from '../lib/activation-cut';
+import ActivationCutEditor, { type CutStatus } from './ActivationCutEditor';
+
+interface TriageModeProps {
+    onDecide: (cardId: string, decision: TriageDecision, cut?: ActivationCut) => Promise<void>;
+    onClose: () => void;
+}
+
+// Proposals arrive in batches so the first cards can be decided while the rest are generated
+const PROPOSAL_BATCH = 15;
+
+const KEYS: Record<string, TriageDecision> = { e: 'execute', s: 'shadow', d: 'discard' };
+
+const titleOf = (card: Card) => card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80);
+
+export default function TriageMode({ onDecide, onClose }: TriageModeProps) {
+    const cards = useCardStore(state => state.cards);
+    // Oldest first; fixed at open so decided cards do not reshuffle the pass
+    const [queue] = useState(() => useCardStore.getState().cards
+        .filter(card => card.state === 'uncommitted')
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(card => card.id));
+    const [proposals, setProposals] = useState<Map<string, TriageProposal>>(new Map());
+    const [aiFailed, setAiFailed] = useState(false);
+    const [position, setPosition] = useState(0);
+    const [tally, setTally] = useState<Record<TriageDecision, number>>({ execute: 0, shadow: 0, discard: 0 });
+    const [busy, setBusy] = useState(false);
+    // Execute asks for an activation cut first, like a confrontation does
+    const [cut, setCut] = useState<ActivationCut | null>(null);
+    const [cutStatus, setCutStatus] = useState<CutStatus>('generating');
+    const cutRequestFor = useRef<string | null>(null);
+    const cutEdited = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const { cards: all } = useCardStore.getState();
+        const inputs = queue
+            .map(id => all.find(card => card.id === id))
+            .filter((card): card is Card => !!card)
+            .map(card => triageInputOf(card, all));
+
+        (async () => {
+            for (let i = 0; i < inputs.length && !cancelled; i += PROPOSAL_BATCH) {
+                const batch = inputs.slice(i, i + PROPOSAL_BATCH);
+                const result = await aiService.generateTriage(batch).catch(() => {
+                    if (!cancelled) setAiFailed(true);
+                    return new Map(batch.map(input => [input.id, fallbackProposal(input)]));
+                });
+                if (!cancelled) setProposals(current => new Map([...current, ...result]));
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [queue]);
+
+    // Cards decided elsewhere while triage runs are passed over
+    const currentIndex = queue.findIndex((id, i) =>
+        i >= position && cards.find(card => card.id === id)?.state === 'uncommitted');
+    const card = currentIndex === -1 ? undefined : cards.find(c => c.id === queue[currentIndex]);
+    const proposal = card ? proposals.get(card.id) : undefined;
+
+    const proposeCut = (target: Card) => {
+        cutRequestFor.current = target.id;
+        cutEdited.current = false;
+        setCut(fallbackCut(target));
+        setCutStatus('generating');
+        aiService.generateActivationCut(activationInputOf(target))
+            .then(proposed => {
+                if (cutRequestFor.current !== target.id) return;
+                setCutStatus('ready');
+                if (cutEdited.current) return;
+                setCut(current => ({
+                    startAction: proposed.startAction || current?.startAction || '',
+                    stopRule: proposed.stopRule || current?.stopRule || '',
+                    durationMinutes: proposed.durationMinutes,
+                }));
+            })
+            .catch(() => {
+                if (cutRequestFor.current === target.id) setCutStatus('failed');
+            });
+    };
+
+    const closeCut = () => {
+        cutRequestFor.current = null;
+        setCut(null);
+    };
+
+    const handleEditCut = (edited: ActivationCut) => {
+        cutEdited.current = true;
+        setCut(edited);
+    };
+
+    const decide = async (decision: TriageDecision) => {
+        if (!card || busy) return;
+        if (decision === 'execute' && !cut) {
+            proposeCut(card);
+            return;
+        }
+        setBusy(true);
+        await onDecide(card.id, decision, decision === 'execute' ? cut! : undefined);
+        closeCut();
+        setTally(current => ({ ...current, [decision]: current[decision] + 1 }));
+        setPosition(currentIndex + 1);
+        setBusy(false);
+    };
+
+    const skip = () => {
+        if (!card) return;
+        closeCut();
+        setPosition(currentIndex + 1);
+    };
+
+    useEffect(() => {
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.metaKey || e.ctrlKey || e.altKey) return;
+            const key = e.key.toLowerCase();
+            if (cut) {
+                // Typing in the cut fields: only Enter and Escape act
+                if (key === 'enter') decide('execute');
+                else if (key === 'escape') closeCut();
+                else return;
+            } else if (key === 'escape') onClose();
+            else if ((key === 'enter' || key === 'a') && proposal) decide(proposal.decision);
+            else if (key in KEYS) decide(KEYS[key]);
+            else if (key === 'arrowright') skip();
+            else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    });
+
+    if (!card) {
+        return (
+            <div className={styles.container}>
+                <h2 className={styles.title}>TRIAGE COMPLETE</h2>
+                <p className={styles.summary}>
+                    {tally.execute} EXECUTED. {tally.shadow} SHADOWED. {tally.discard} DISCARDED.
+                </p>
+                <button onClick={onClose} className={styles.closeButton}>CLOSE</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.topBar}>
+                <span>TRIAGE {currentIndex + 1} / {queue.length}</span>
+                <button onClick={onClose} className={styles.iconButton} aria-label="Leave triage">
+                    <X size={14} aria-hidden="true" />
+                </button>
+            </div>
+
+            <div className={styles.card}>
+                <div className={styles.cardTitle}>{titleOf(card)}</div>
+                {card.aiSummary && <div className={styles.cardSummary}>{card.aiSummary}</div>}
+                <div className={styles.cardMeta}>
+                    SAVED {formatTimeSince(card.createdAt).toUpperCase()}
+                    {card.totalConfrontations > 0 && ` · OPENED ${card.totalConfrontations}×`}
+                    {card.decision === 'shadow' && ' · DEFERRED BEFORE'}
+                </div>
+            </div>
+
+            {cut ? (
+                <>
+                    <ActivationCutEditor cut={cut} status={cutStatus} onChange={handleEditCut} />
+                    <button onClick={() => decide('execute')} disabled={busy} className={styles.acceptButton}>
+                        <Check size={16} aria-hidden="true" /> EXECUTE
+                        <span className={styles.keyHint}>ENTER</span>
+                    </button>
+                    <button onClick={closeCut} className={styles.skipButton}>
+                        BACK
+                        <span className={styles.keyHint}>ESC</span>
+                    </button>
+                </>
+            ) : (
+                <>
+                    <div className={styles.proposal}>
+                        {proposal ? (
+                            <>
+                                <span className={clsx(styles.proposedDecision, styles[proposal.decision])}>
+                                    {proposal.decision.toUpperCase()}
+                                </span>
+                                <span className={styles.rationale}>{proposal.rationale}</span>
+                            </>
+                        ) : (
+                            <span className={styles.rationale}>PROPOSING...</span>
+                        )}
+                    </div>
+                    {aiFailed && <div className={styles.notice}>AI UNAVAILABLE. RULE-BASED PROPOSALS.</div>}
+
+                    <button
+                        onClick={() => proposal && decide(proposal.decision)}
+                        disabled={!proposal || busy}
+                        className={styles.acceptButton}
+                    >
+                        <Check size={16} aria-hidden="true" /> ACCEPT
+                        <span className={styles.keyHint}>ENTER</span>
+                    </button>
+
+                    <div className={styles.overrides}>
+                        {TRIAGE_DECISIONS.map(decision => (
+                            <button
+                                key={decision}
+                                onClick={() => decide(decision)}
+                                disabled={busy}
+                                className={clsx(styles.overrideButton, proposal?.decision === decision && styles.overrideProposed)}
+                            >
+                                {decision.toUpperCase()}
+                                <span className={styles.keyHint}>{decision[0].toUpperCase()}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <button onClick={skip} className={styles.skipButton}>
+                        <SkipForward size={12} aria-hidden="true" /> SKIP
+                        <span className={styles.keyHint}>→</span>
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,48 @@
+// Activation Cut: the loop stripped to one step of at most 15 minutes (see docs/BRAND_PRINCIPLES.md)
+import type { Card } from './types';
+
+export const MIN_CUT_MINUTES = 5;
+export const MAX_CUT_MINUTES = 15;
+
+export interface ActivationCut {
+    startAction: string;        // The first physical step, verb first
+    stopRule: string;           // Observable condition that ends the session honestly
+    durationMinutes: number;
+}
+
+// What the AI sees: the card as captured, never the user's history
+export interface ActivationCutInput {
+    title: string;
+    summary?: string;
+    source: string;             // URL, note text or file name
+    sourceType: Card['sourceType'];
+    category?: string;
+    proposedStart?: string;     // Already proposed at capture (e.g. a transcript segment)
+    readMinutes?: number;
+    context: string[];          // Dropped extra context, flattened
+}
+
+export const clampCutMinutes = (minutes: number) =>
+    Math.min(MAX_CUT_MINUTES, Math.max(MIN_CUT_MINUTES, Math.round(minutes) || MAX_CUT_MINUTES));
+
+export function activationInputOf(card: Card): ActivationCutInput {
+    return {
+        title: card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80),
+        summary: card.aiSummary,
+        source: card.sourceLocation ? `${card.sourceLocation.url}\n${card.sourceLocation.excerpt}` : card.sourceContent.slice(0, 2000),
+        sourceType: card.sourceType,
+        category: card.category,
+        proposedStart: card.startAction,
+        readMinutes: card.estimatedReadMinutes,
+        context: (card.extraContext || []).map(item => [item.title, item.content, item.excerpt].filter(Boolean).join(': ')),
+    };
+}
+
+// Shown until the AI answers, and kept when it cannot
+export function fallbackCut(card: Card): ActivationCut {
+    return {
+        startAction: card.startAction || '',
+        stopRule: card.stopRule || '',
+        durationMinutes: clampCutMinutes(card.executeDuration),
+    };
+}
@@ -0,0 +1,26 @@
+// Analysis queue: every analysis the service worker owes, persisted so it survives restarts and offline spells
+import { storage } from './storage';
+import type { ExtractionPayload } from './content-extractor';
+
+export const ANALYSIS_QUEUE_KEY = 'cutoff_analysis_queue';
+
+export type AnalysisJobStatus =
+    | 'queued'      // Due at nextAttemptAt
+    | 'running'
+    | 'blocked'     // Waiting for an API key; costs no attempts
+    | 'failed';     // Attempts exhausted; only a manual retry brings it back
+
+export interface AnalysisJob {
+    cardId: string;
+    status: AnalysisJobStatus;
+    attempts: number;
+    nextAttemptAt: number;
+    enqueuedAt: number;
+    lastError?: string;
+    payload?: ExtractionPayload;    // Content extracted at capture time; without it the card is re-read
+    force?: boolean;                // Re-analysis asked for: the cached result is not reused
+}
+
+export async function getAnalysisJobs(): Promise<AnalysisJob[]> {
+    return (await storage.get<AnalysisJob[]>(ANALYSIS_QUEUE_KEY)) || [];
+}
@@ -0,0 +1,36 @@
+// Binary attachments (screenshots) live under their own keys, never inside cutoff_cards
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from './storage';
+import type { AttachmentRef } from './types';
+
+const ATTACHMENT_KEY_PREFIX = 'cutoff_attachment_';
+
+export interface StoredAttachment {
+    mimeType: string;
+    data: string;               // Base64, no data: prefix
+}
+
+const keyFor = (id: string) => `${ATTACHMENT_KEY_PREFIX}${id}`;
+
+export async function saveAttachment(
+    data: string,
+    mimeType: string,
+    size: { width: number; height: number }
+): Promise<AttachmentRef> {
+    const id = uuidv4();
+    await storage.set<StoredAttachment>(keyFor(id), { mimeType, data });
+    return {
+        id,
+        mimeType,
+        width: size.width,
+        height: size.height,
+        bytes: Math.floor(data.length * 3 / 4),
+    };
+}
+
+export const loadAttachment = (id: string) => storage.get<StoredAttachment>(keyFor(id));
+
+export const deleteAttachment = (id: string) => storage.remove(keyFor(id));
+
+export const attachmentDataUrl = (attachment: StoredAttachment) =>
+    `data:${attachment.mimeType};base64,${attachment.data}`;
@@ -0,0 +1,98 @@
+/// <reference types="chrome"/>
+// Analysis of a manual capture (link, text or file), shared by the capture modal and side panel drops
+import { aiService, type AIAnalysisResult } from '../services/ai-service';
+import { extractPageContext, readMinutesOf, type ExtractionPayload } from './content-extractor';
+import { fetchPageMetadata, metadataToPayload } from './metadata-fetcher';
+import { extractPdf, readPdfLink } from './pdf-extractor';
+import { isPdfContentType, isPdfFile, isPdfUrl, pdfToRawText } from './pdf-source';
+import { blobToBase64 } from './image-encode';
+
+// Inline uploads share Gemini's 20 MB request limit with the prompt (base64 adds a third)
+export const MAX_INLINE_FILE_BYTES = 10 * 1024 * 1024;
+
+export interface CaptureAnalysis {
+    result: AIAnalysisResult;
+    readMinutes?: number;
+    canonicalHint?: string;     // Canonical URL declared by the page
+}
+
+// The active tab can be scripted; anything else is read over fetch
+async function extractIfActiveTab(url: string): Promise<ExtractionPayload | null> {
+    try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id || tab.url !== url) return null;
+        const injection = await chrome.scripting.executeScript({
+            target: { tabId: tab.id },
+            func: extractPageContext
+        });
+        return (injection?.[0]?.result as ExtractionPayload) || null;
+    } catch {
+        // Ignore content extraction failures
+        return null;
+    }
+}
+
+async function analyzePdfLink(url: string): Promise<CaptureAnalysis> {
+    const pdf = await readPdfLink(url);
+    if (!pdf) return { result: await aiService.analyzeUrl(url) };
+    return { result: await aiService.analyzeContent(pdf.payload), readMinutes: pdf.readMinutes };
+}
+
+export async function analyzeLink(url: string): Promise<CaptureAnalysis> {
+    if (isPdfUrl(url)) return analyzePdfLink(url);
+
+    const payload = await extractIfActiveTab(url);
+    if (payload) {
+        return {
+            result: await aiService.analyzeContent(payload),
+            readMinutes: readMinutesOf(payload),
+            canonicalHint: payload.canonicalUrl,
+        };
+    }
+
+    // Manual paste or different tab: fetch metadata, else analyse the bare URL
+    const metadata = await fetchPageMetadata(url);
+    if (isPdfContentType(metadata.contentType)) return analyzePdfLink(url);
+    const fetched = metadataToPayload(metadata);
+    if (!fetched) return { result: await aiService.analyzeUrl(url) };
+    return { result: await aiService.analyzeContent(fetched), canonicalHint: fetched.canonicalUrl };
+}
+
+export async function analyzeText(text: string): Promise<CaptureAnalysis> {
+    return { result: await aiService.analyzeText(text) };
+}
+
+// PDFs are read locally; other files go inline when small enough.
+// Also queued with a file card saved unanalysed: the service worker cannot reopen the file.
+export async function filePayload(file: File): Promise<{ payload: ExtractionPayload; readMinutes?: number }> {
+    const sizeLabel = `${(file.size / 1024).toFixed(1)} KB`;
+    const pdf = isPdfFile(file) ? await extractPdf(await file.arrayBuffer()) : null;
+    const needsUpload = !pdf || !pdf.text;
+    const canUpload = file.size <= MAX_INLINE_FILE_BYTES;
+
+    const payload: ExtractionPayload = {
+        url: 'file://' + file.name,
+        platform: 'file',
+        title: pdf?.title || file.name,
+        rawText: pdf
+            ? pdfToRawText(pdf, file.name)
+            : `File: ${file.name} (${file.type}, ${sizeLabel})` +
+                (canUpload ? '' : '\nContent not analysed: file exceeds the upload limit.'),
+        metadata: {
+            size: file.size,
+            lastModified: file.lastModified,
+            pageCount: pdf?.pageCount,
+            author: pdf?.author
+        },
+        fileData: needsUpload && canUpload ? {
+            mimeType: file.type || 'application/octet-stream',
+            data: await blobToBase64(file)
+        } : undefined
+    };
+    return { payload, readMinutes: pdf ? pdf.pageCount * 2 : undefined };
+}
+
+export async function analyzeFile(file: File): Promise<CaptureAnalysis> {
+    const { payload, readMinutes } = await filePayload(file);
+    return { result: await aiService.analyzeContent(payload), readMinutes };
+}
@@ -0,0 +1,57 @@
+// Card embeddings, stored locally and refreshed only when a card's text or the embedding model changes
+import { aiService } from '../services/ai-service';
+import { storage } from './storage';
+import { hashText } from './hash';
+import type { Card } from './types';
+
+const EMBEDDINGS_KEY = 'cutoff_card_embeddings';
+const MAX_EMBED_TEXT = 2000;
+
+interface StoredEmbedding {
+    model: string;
+    textHash: number;
+    vector: number[];
+}
+
+type EmbeddingStore = Record<string, StoredEmbedding>;
+
+// What the card is about, not its state: title, summary, tags, then the source itself
+export function embeddingTextOf(card: Card): string {
+    return [
+        card.aiTitle || card.extractedTitle,
+        card.aiSummary,
+        card.aiTags?.join(', '),
+        card.category,
+        card.sourceContent,
+    ].filter(Boolean).join('\n').slice(0, MAX_EMBED_TEXT);
+}
+
+// Four decimals are plenty for cosine similarity and halve the stored size
+const compact = (vector: number[]) => vector.map(value => Math.round(value * 1e4) / 1e4);
+
+/**
+ * Vectors for the given cards, embedding only the new or changed ones.
+ * Entries of cards not passed in are dropped, so the store tracks the open loops.
+ */
+export async function ensureEmbeddings(cards: Card[]): Promise<Map<string, number[]>> {
+    const model = await aiService.getEmbeddingModel();
+    const stored = (await storage.get<EmbeddingStore>(EMBEDDINGS_KEY)) || {};
+
+    const texts = new Map(cards.map(card => [card.id, embeddingTextOf(card)]));
+    const stale = cards.filter(card => {
+        const entry = stored[card.id];
+        return !entry || entry.model !== model || entry.textHash !== hashText(texts.get(card.id)!);
+    });
+
+    const vectors = await aiService.embedTexts(stale.map(card => texts.get(card.id)!));
+    const next: EmbeddingStore = {};
+    for (const card of cards) {
+        const index = stale.indexOf(card);
+        next[card.id] = index === -1
+            ? stored[card.id]
+            : { model, textHash: hashText(texts.get(card.id)!), vector: compact(vectors[index]) };
+    }
+    await storage.set<EmbeddingStore>(EMBEDDINGS_KEY, next);
+
+    return new Map(Object.entries(next).map(([id, entry]) => [id, entry.vector]));
+}
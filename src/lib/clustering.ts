@@ -0,0 +1,62 @@
+// Similarity clustering of embedded cards: average linkage, merged while the groups stay alike
+
+export interface EmbeddedItem {
+    id: string;
+    vector: number[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Groups of ids whose average pairwise similarity is at least `threshold`, largest first.
+ * Average linkage resists chaining: two topics do not fuse through one item that sits between them.
+ * Singletons are not returned.
+ */
+export function clusterBySimilarity(items: EmbeddedItem[], threshold: number): string[][] {
+    const clusters = items.map(item => [item.id]);
+    const similarity = items.map(a => items.map(b => cosineSimilarity(a.vector, b.vector)));
+    const active = items.map(() => true);
+
+    for (;;) {
+        let best = -Infinity;
+        let bestA = -1;
+        let bestB = -1;
+        for (let a = 0; a < items.length; a++) {
+            if (!active[a]) continue;
+            for (let b = a + 1; b < items.length; b++) {
+                if (active[b] && similarity[a][b] > best) {
+                    best = similarity[a][b];
+                    bestA = a;
+                    bestB = b;
+                }
+            }
+        }
+        if (bestA === -1 || best < threshold) break;
+
+        // Lance-Williams update: the merged group's similarity is the size-weighted average
+        const sizeA = clusters[bestA].length;
+        const sizeB = clusters[bestB].length;
+        for (let c = 0; c < items.length; c++) {
+            if (!active[c] || c === bestA || c === bestB) continue;
+            const merged = (sizeA * similarity[bestA][c] + sizeB * similarity[bestB][c]) / (sizeA + sizeB);
+            similarity[bestA][c] = merged;
+            similarity[c][bestA] = merged;
+        }
+        clusters[bestA] = [...clusters[bestA], ...clusters[bestB]];
+        active[bestB] = false;
+    }
+
+    return clusters
+        .filter((cluster, i) => active[i] && cluster.length > 1)
+        .sort((a, b) => b.length - a.length);
+}
@@ -1,160 +1,653 @@
-export interface ExtractionPayload {
+// --- Payload types (compile-time only, so the injected function stays self-contained) ---
+
+interface BaseMetadata {
+    description?: string;
+    author?: string;
+    keywords?: string;
+    wordCount?: number;
+    readMinutes?: number;       // At ~230 words per minute
+}
+
+// Platform-specific metadata produced by each site extractor
+export interface PlatformMetadataMap {
+    web: BaseMetadata;
+    youtube: BaseMetadata & {
+        chapters: string[];
+        comments: string[];
+        durationSeconds?: number;
+        transcript?: {
+            language: string;
+            generated: boolean;     // Auto-generated (ASR) captions
+            text: string;           // "[m:ss] ..." lines, trimmed to fit the prompt
+        };
+    };
+    github: BaseMetadata & {
+        repo?: string;
+        kind: 'repo' | 'issue' | 'pull' | 'other';
+        number?: number;
+        state?: string;
+        labels: string[];
+    };
+    twitter: BaseMetadata & {
+        handle?: string;
+        tweets: string[];           // Thread in page order
+    };
+    reddit: BaseMetadata & {
+        subreddit?: string;
+        score?: string;
+        comments: string[];
+    };
+    hackernews: BaseMetadata & {
+        points?: string;
+        linkUrl?: string;
+        comments: string[];
+    };
+    arxiv: BaseMetadata & {
+        arxivId?: string;
+        authors: string[];
+        subjects?: string;
+    };
+    stackoverflow: BaseMetadata & {
+        site: string;
+        tags: string[];
+        votes?: string;
+        hasAcceptedAnswer: boolean;
+    };
+    article: BaseMetadata & {
+        publication?: string;       // Medium publication or Substack newsletter
+        subtitle?: string;
+        publishedAt?: string;
+    };
+}
+
+export type Platform = keyof PlatformMetadataMap;
+
+interface PayloadBase {
     url: string;
-    platform: string;
     title: string;
     rawText: string;
-    metadata?: Record<string, unknown>;
+    canonicalUrl?: string;      // <link rel=canonical>, when the page declares one
     fileData?: {
         mimeType: string;
         data: string; // Base64
     };
 }
 
+// Discriminated on `platform`: narrowing gives the matching metadata shape
+export type PagePayload = {
+    [P in Platform]: PayloadBase & { platform: P; metadata: PlatformMetadataMap[P] }
+}[Platform];
+
+export type ExtractionPayload =
+    | PagePayload
+    | (PayloadBase & { platform: 'text'; metadata?: Record<string, unknown> })
+    | (PayloadBase & { platform: 'file'; metadata?: Record<string, unknown> });
+
+// Read time of pages only; files and notes have no meaningful word count
+export function readMinutesOf(payload?: ExtractionPayload | null): number | undefined {
+    if (!payload || payload.platform === 'text' || payload.platform === 'file') return undefined;
+    return payload.metadata.readMinutes;
+}
+
 /**
  * This function is designed to be serialized and injected into the page context.
  * It must not rely on external imports.
+ *
+ * Site extractors are registered in `registry` below, first match wins;
+ * the generic `web` extractor is the fallback.
  */
-/**
- * This function is designed to be serialized and injected into the page context.
- * It must not rely on external imports.
- */
-export async function extractPageContext(): Promise<ExtractionPayload> {
+export async function extractPageContext(): Promise<PagePayload> {
     const url = window.location.href;
     const hostname = window.location.hostname;
+    const pathname = window.location.pathname;
+
+    const MAX_TEXT = 8000;
 
     const clean = (str: string | undefined | null) => (str || '').replace(/\s+/g, ' ').trim();
     const getMeta = (name: string) =>
         document.querySelector(`meta[name="${name}"]`)?.getAttribute('content') ||
         document.querySelector(`meta[property="${name}"]`)?.getAttribute('content');
+    const text = (selector: string, root: ParentNode = document) =>
+        clean((root.querySelector(selector) as HTMLElement | null)?.innerText);
+    const texts = (selector: string, limit: number, maxLength = 400, root: ParentNode = document) =>
+        Array.from(root.querySelectorAll<HTMLElement>(selector))
+            .map(el => clean(el.innerText).slice(0, maxLength))
+            .filter(Boolean)
+            .slice(0, limit);
 
     const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
-    // Wait for critical elements on SPAs (up to 2s)
-    let retries = 0;
-    while (retries < 10) {
-        // If we have a generic title on YouTube, wait
-        const isGenericYouTube = hostname.includes('youtube.com') &&
-            (!document.title || document.title === 'YouTube');
+    // SPAs render late: poll for a selector (up to 2s)
+    const waitFor = async (selector: string) => {
+        for (let i = 0; i < 10 && !document.querySelector(selector); i++) {
+            await sleep(200);
+        }
+    };
 
-        if (!isGenericYouTube) break;
+    // --- Readability-style main content scoring ---
 
-        // Check if H1 exists yet
-        const ytH1 = document.querySelector('h1.ytd-watch-metadata') || document.querySelector('#title h1');
-        if (ytH1) break;
+    const BOILERPLATE_TAGS = 'nav, header, footer, aside, form, script, style, noscript, iframe, svg, button, dialog, ' +
+        '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="dialog"], [aria-hidden="true"]';
+    const NEGATIVE_HINT = /cookie|consent|gdpr|banner|\bnav|menu|breadcrumb|footer|sidebar|share|social|comment|related|recommend|promo|newsletter|subscribe|signup|advert|sponsor|popup|modal|masthead|widget/i;
+    const POSITIVE_HINT = /article|content|entry|main|post|story|body|text|prose/i;
 
-        await sleep(200);
-        retries++;
-    }
+    const hintOf = (el: Element) => `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
 
-    let title = document.title;
-    let rawText = '';
-    let platform = 'web';
-    const metadata: Record<string, unknown> = {};
-
-    // Base Metadata
-    const description = getMeta('description') || getMeta('og:description') || '';
-    const ogTitle = getMeta('og:title');
-    if (ogTitle) title = ogTitle;
-
-    metadata.description = description;
-    metadata.author = getMeta('author') || getMeta('og:site_name');
-    metadata.keywords = getMeta('keywords');
-
-    // 2. Specific Platform Heuristics
-    if (hostname.includes('youtube.com')) {
-        platform = 'youtube';
-
-        // Try JSON-LD first (Most reliable, iterate all to find VideoObject)
-        const jsonLdScripts = document.querySelectorAll('script[type="application/ld+json"]');
-        let foundJsonLd = false;
-
-        for (const script of Array.from(jsonLdScripts)) {
-            try {
-                const data = JSON.parse(script.textContent || '{}');
-                // Check if it's the main VideoObject by type
-                if (data['@type'] === 'VideoObject' || data['@type'] === 'http://schema.org/VideoObject') {
-                    if (data.name) title = data.name;
-                    if (data.description) metadata.description = data.description;
-                    if (data.author && data.author.name) metadata.author = data.author.name;
-                    foundJsonLd = true;
-                    break; // Found the specific video metadata
-                }
-            } catch {
-                // ignore
-            }
+    const isBoilerplate = (el: Element): boolean => {
+        for (let node: Element | null = el; node && node !== document.body; node = node.parentElement) {
+            if (node.matches(BOILERPLATE_TAGS)) return true;
+            const hint = hintOf(node);
+            if (NEGATIVE_HINT.test(hint) && !POSITIVE_HINT.test(hint)) return true;
+        }
+        return false;
+    };
+
+    const linkDensity = (el: HTMLElement) => {
+        const length = el.innerText.length;
+        if (!length) return 1;
+        const linked = Array.from(el.querySelectorAll('a')).reduce((sum, a) => sum + a.innerText.length, 0);
+        return linked / length;
+    };
+
+    const classWeight = (el: Element) => {
+        const hint = hintOf(el);
+        return (POSITIVE_HINT.test(hint) ? 25 : 0) - (NEGATIVE_HINT.test(hint) ? 25 : 0) +
+            (el.tagName === 'ARTICLE' || el.tagName === 'MAIN' ? 10 : 0);
+    };
+
+    // Paragraphs vote for their parent (full score) and grandparent (half)
+    const readable = (): string => {
+        const scores = new Map<HTMLElement, number>();
+        for (const p of Array.from(document.querySelectorAll<HTMLElement>('p, pre, td, blockquote'))) {
+            const paragraph = clean(p.innerText);
+            if (paragraph.length < 25 || isBoilerplate(p)) continue;
+
+            const score = 1 + paragraph.split(/[,，、]/).length + Math.min(3, Math.floor(paragraph.length / 100));
+            const parent = p.parentElement;
+            const grandparent = parent?.parentElement;
+            if (parent) scores.set(parent, (scores.get(parent) ?? classWeight(parent)) + score);
+            if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? classWeight(grandparent)) + score / 2);
         }
 
-        // DOM Fallback for Title (only if JSON-LD failed)
-        // Check standard H1 or the new ytd-watch-metadata
-        const ytTitle = document.querySelector('h1.ytd-watch-metadata')?.textContent ||
-            document.querySelector('#title h1')?.textContent;
-        if (!foundJsonLd && ytTitle) {
-            title = clean(ytTitle);
+        let best: HTMLElement | null = null;
+        let bestScore = 0;
+        for (const [el, score] of scores) {
+            const adjusted = score * (1 - linkDensity(el));
+            if (adjusted > bestScore) {
+                best = el;
+                bestScore = adjusted;
+            }
         }
 
-        // DOM Fallback for Description
-        if (!metadata.description) {
-            // Meta tag is often better than hidden DOM
-            const metaDesc = getMeta('description') || getMeta('og:description');
-            if (metaDesc) {
-                metadata.description = clean(metaDesc);
-            } else {
-                // Try DOM expansion text
-                const ytDesc = document.querySelector('#description-inline-expander')?.textContent ||
-                    document.querySelector('#description-text')?.textContent;
-                if (ytDesc) metadata.description = clean(ytDesc);
+        // Content split across sibling containers (e.g. around an inline ad)
+        const roots = best?.parentElement
+            ? Array.from(best.parentElement.children).filter(sibling =>
+                sibling === best || (scores.get(sibling as HTMLElement) ?? 0) * (1 - linkDensity(sibling as HTMLElement)) >= bestScore * 0.2)
+            : [];
+
+        const blocks = roots.flatMap(root => Array.from(root.querySelectorAll<HTMLElement>('h2, h3, h4, p, li, pre, blockquote')))
+            .filter(el => !el.parentElement?.closest('p, li, pre, blockquote'))   // No nested duplicates
+            .filter(el => !isBoilerplate(el) && linkDensity(el) < 0.5)
+            .map(el => clean(el.innerText))
+            .filter(Boolean);
+
+        const body = blocks.join('\n\n');
+        if (body.length >= 200) return body;
+
+        // Nothing scored (app shells, listing pages): previous behaviour
+        const main = document.querySelector('main') || document.querySelector('article') || document.body;
+        return clean(main.innerText).slice(0, 5000);
+    };
+
+    const readingTime = (content: string) => {
+        const wordCount = content.split(/\s+/).filter(Boolean).length;
+        return { wordCount, readMinutes: Math.max(1, Math.round(wordCount / 230)) };
+    };
+
+    // --- YouTube captions ---
+
+    const MAX_TRANSCRIPT = 12000;
+    const MAX_TRANSCRIPT_LINES = 120;
+
+    type CaptionTrack = { baseUrl: string; languageCode: string; kind?: string };
+    type CaptionEvent = { tStartMs?: number; segs?: { utf8?: string }[] };
+
+    const timestamp = (seconds: number) => {
+        const h = Math.floor(seconds / 3600);
+        const m = Math.floor((seconds % 3600) / 60);
+        const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+        return h ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+    };
+
+    // The isolated world cannot read ytInitialPlayerResponse, so read the track list from fresh watch page HTML
+    const readCaptionTracks = async (): Promise<CaptionTrack[]> => {
+        const html = await (await fetch(url, { credentials: 'include' })).text();
+        const start = html.indexOf('"captionTracks":');
+        if (start === -1) return [];
+
+        const open = html.indexOf('[', start);
+        let depth = 0;
+        for (let i = open; i < html.length; i++) {
+            if (html[i] === '[') depth++;
+            else if (html[i] === ']' && --depth === 0) {
+                return JSON.parse(html.slice(open, i + 1)) as CaptionTrack[];
             }
         }
+        return [];
+    };
+
+    // Manual captions beat auto-generated ones; the page language beats English
+    const pickTrack = (tracks: CaptionTrack[]) => {
+        const lang = (document.documentElement.lang || 'en').split('-')[0];
+        const manual = tracks.filter(t => t.kind !== 'asr');
+        return manual.find(t => t.languageCode.startsWith(lang)) ||
+            manual.find(t => t.languageCode.startsWith('en')) ||
+            manual[0] ||
+            tracks.find(t => t.languageCode.startsWith(lang)) ||
+            tracks[0];
+    };
 
-        // DOM Fallback for Author
-        if (!metadata.author) {
-            const channelName = document.querySelector('ytd-channel-name a')?.textContent;
-            if (channelName) metadata.author = clean(channelName);
+    // Captions grouped into time windows, each window trimmed so the whole video stays covered
+    const fetchTranscript = async (durationSeconds?: number) => {
+        const track = pickTrack(await readCaptionTracks());
+        if (!track) return undefined;
+
+        const response = await fetch(`${track.baseUrl}&fmt=json3`);
+        if (!response.ok) return undefined;
+        const events = ((await response.json()).events || []) as CaptionEvent[];
+
+        const captions = events
+            .filter(e => e.segs && e.tStartMs !== undefined)
+            .map(e => ({ start: e.tStartMs! / 1000, text: clean(e.segs!.map(s => s.utf8 || '').join('')) }))
+            .filter(c => c.text);
+        if (captions.length === 0) return undefined;
+
+        const duration = durationSeconds || captions[captions.length - 1].start;
+        const windowSeconds = Math.max(30, Math.ceil(duration / MAX_TRANSCRIPT_LINES / 30) * 30);
+
+        const windows = new Map<number, string[]>();
+        for (const caption of captions) {
+            const key = Math.floor(caption.start / windowSeconds);
+            const parts = windows.get(key) || [];
+            parts.push(caption.text);
+            windows.set(key, parts);
         }
 
-        // Context: Chapter markers
-        const chapters = Array.from(document.querySelectorAll('ytd-macro-markers-list-item-renderer h4'))
-            .map(el => clean(el.textContent))
-            .filter(Boolean)
-            .join('; ');
+        const perLine = Math.floor(MAX_TRANSCRIPT / windows.size);
+        const lines = Array.from(windows, ([key, parts]) => {
+            const line = parts.join(' ');
+            const trimmed = line.length > perLine ? `${line.slice(0, perLine - 1)}…` : line;
+            return `[${timestamp(key * windowSeconds)}] ${trimmed}`;
+        });
+
+        return {
+            language: track.languageCode,
+            generated: track.kind === 'asr',
+            text: lines.join('\n'),
+        };
+    };
 
-        // Context: Comments (User validation)
-        const comments = Array.from(document.querySelectorAll('#content-text'))
-            .slice(0, 5)
-            .map(el => el.textContent?.slice(0, 200))
-            .join('\n---\n');
+    const base: BaseMetadata = {
+        description: getMeta('description') || getMeta('og:description') || '',
+        author: getMeta('author') || getMeta('og:site_name') || undefined,
+        keywords: getMeta('keywords') || undefined,
+    };
+    const pageTitle = getMeta('og:title') || document.title;
+
+    type Extracted<P extends Platform> = {
+        title?: string;
+        rawText: string;
+        metadata: PlatformMetadataMap[P];
+    };
+    type SiteExtractor = {
+        [P in Platform]: {
+            platform: P;
+            matches: () => boolean;
+            extract: () => Promise<Extracted<P>>;
+        }
+    }[Platform];
+
+    const registry: SiteExtractor[] = [
+        {
+            platform: 'youtube',
+            matches: () => hostname.includes('youtube.com') && pathname === '/watch',
+            extract: async () => {
+                // Wait for a real title on SPA navigation
+                if (!document.title || document.title === 'YouTube') {
+                    await waitFor('h1.ytd-watch-metadata, #title h1');
+                }
+
+                let title = getMeta('og:title') || document.title;
+                const metadata: PlatformMetadataMap['youtube'] = { ...base, chapters: [], comments: [] };
+
+                // Try JSON-LD first (Most reliable, iterate all to find VideoObject)
+                let foundJsonLd = false;
+                for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+                    try {
+                        const data = JSON.parse(script.textContent || '{}');
+                        if (data['@type'] === 'VideoObject' || data['@type'] === 'http://schema.org/VideoObject') {
+                            if (data.name) title = data.name;
+                            if (data.description) metadata.description = data.description;
+                            if (data.author && data.author.name) metadata.author = data.author.name;
+                            foundJsonLd = true;
+                            break;
+                        }
+                    } catch {
+                        // ignore
+                    }
+                }
+
+                // DOM Fallback for Title (only if JSON-LD failed)
+                const ytTitle = text('h1.ytd-watch-metadata') || text('#title h1');
+                if (!foundJsonLd && ytTitle) title = ytTitle;
+
+                // DOM Fallback for Description
+                if (!metadata.description) {
+                    metadata.description = text('#description-inline-expander') || text('#description-text');
+                }
 
-        rawText = `VIDEO CONTEXT:
+                // DOM Fallback for Author
+                const channelName = text('ytd-channel-name a');
+                if (channelName && (!metadata.author || metadata.author === 'YouTube')) {
+                    metadata.author = channelName;
+                }
+
+                // Context: Chapter markers, comments (user validation)
+                metadata.chapters = texts('ytd-macro-markers-list-item-renderer h4', 30, 120);
+                metadata.comments = texts('#content-text', 5, 200);
+
+                const video = document.querySelector('video');
+                if (video && Number.isFinite(video.duration) && video.duration > 0) {
+                    metadata.durationSeconds = Math.round(video.duration);
+                }
+
+                // Transcript is best-effort: no captions or a blocked track leaves it out
+                try {
+                    metadata.transcript = await fetchTranscript(metadata.durationSeconds);
+                } catch {
+                    // ignore
+                }
+                if (metadata.durationSeconds) {
+                    metadata.readMinutes = Math.ceil(metadata.durationSeconds / 60);
+                }
+
+                return {
+                    title,
+                    metadata,
+                    rawText: `VIDEO CONTEXT:
 Title: ${title}
 Channel: ${metadata.author || 'Unknown'}
 Description: ${metadata.description || 'No description available'}
-Chapters: ${chapters}
+Chapters: ${metadata.chapters.join('; ')}
 
 Top Comments:
-${comments}`;
-
-    } else if (hostname.includes('github.com')) {
-        platform = 'github';
-        const readme = document.querySelector('article.markdown-body')?.textContent;
-        if (readme) {
-            rawText = clean(readme.slice(0, 5000));
-        } else {
-            rawText = document.body.innerText.slice(0, 3000);
-        }
-    } else {
-        // Generic Web
-        const h1s = Array.from(document.querySelectorAll('h1')).map(el => el.textContent).join('; ');
-        const main = document.querySelector('main') || document.querySelector('article') || document.body;
-        const bodyText = clean(main.innerText.slice(0, 5000));
+${metadata.comments.join('\n---\n')}`
+                };
+            }
+        },
+        {
+            platform: 'github',
+            matches: () => hostname === 'github.com',
+            extract: async () => {
+                const [owner, repo, section, id] = pathname.split('/').filter(Boolean);
+                const kind = section === 'issues' && id ? 'issue' : section === 'pull' && id ? 'pull' : !section ? 'repo' : 'other';
+                const metadata: PlatformMetadataMap['github'] = {
+                    ...base,
+                    repo: owner && repo ? `${owner}/${repo}` : undefined,
+                    kind,
+                    labels: [],
+                };
+
+                if (kind === 'issue' || kind === 'pull') {
+                    await waitFor('.comment-body, [data-testid="issue-body"]');
+                    metadata.number = Number(id);
+                    metadata.state = text('[data-testid="header-state"]') || text('.State');
+                    metadata.labels = texts('.IssueLabel, [data-testid="issue-labels"] a', 10, 40);
+
+                    const title = text('[data-testid="issue-title"]') || text('.js-issue-title') || pageTitle;
+                    const [body = '', ...comments] = texts('[data-testid="markdown-body"], .comment-body', 6, 1500);
+
+                    return {
+                        title,
+                        metadata,
+                        rawText: `${kind === 'pull' ? 'PULL REQUEST' : 'ISSUE'} #${id} in ${metadata.repo} (${metadata.state || 'unknown state'})
+Labels: ${metadata.labels.join(', ')}
+
+${body}
+
+Discussion:
+${comments.join('\n---\n')}`.slice(0, MAX_TEXT)
+                    };
+                }
+
+                const about = text('.BorderGrid p.f4') || metadata.description || '';
+                const readme = text('article.markdown-body');
+                return {
+                    title: metadata.repo || pageTitle,
+                    metadata: { ...metadata, description: about },
+                    rawText: readme
+                        ? `About: ${about}\n\nREADME:\n${readme}`.slice(0, MAX_TEXT)
+                        : clean(document.body.innerText).slice(0, 3000)
+                };
+            }
+        },
+        {
+            platform: 'twitter',
+            matches: () => /(^|\.)(twitter|x)\.com$/.test(hostname) && pathname.includes('/status/'),
+            extract: async () => {
+                await waitFor('[data-testid="tweetText"]');
+                const handle = pathname.split('/').filter(Boolean)[0];
 
-        rawText = `Headings: ${h1s}\n\nContent: ${bodyText}`;
+                // A thread: consecutive tweets by the author of the first one
+                const tweets = Array.from(document.querySelectorAll<HTMLElement>('article[data-testid="tweet"]'))
+                    .filter(article => article.querySelector(`a[href="/${handle}" i]`))
+                    .map(article => text('[data-testid="tweetText"]', article))
+                    .filter(Boolean)
+                    .slice(0, 25);
+
+                return {
+                    title: tweets[0] ? `@${handle}: ${tweets[0].slice(0, 80)}` : pageTitle,
+                    metadata: { ...base, author: `@${handle}`, handle, tweets },
+                    rawText: `THREAD by @${handle} (${tweets.length} posts):\n${tweets.join('\n---\n')}`.slice(0, MAX_TEXT)
+                };
+            }
+        },
+        {
+            platform: 'reddit',
+            matches: () => hostname.endsWith('reddit.com') && pathname.includes('/comments/'),
+            extract: async () => {
+                const subreddit = pathname.split('/')[2];
+                const post = document.querySelector('shreddit-post');
+
+                let title: string;
+                let body: string;
+                let score: string | undefined;
+                let author: string | undefined;
+                let comments: string[];
+
+                if (post) {
+                    // New reddit: web components expose the post as attributes
+                    title = post.getAttribute('post-title') || pageTitle;
+                    score = post.getAttribute('score') || undefined;
+                    author = post.getAttribute('author') || undefined;
+                    body = text('[slot="text-body"]', post);
+                    comments = Array.from(document.querySelectorAll('shreddit-comment[depth="0"]'))
+                        .map(c => text('[slot="comment"]', c).slice(0, 400))
+                        .filter(Boolean)
+                        .slice(0, 5);
+                } else {
+                    // Old reddit
+                    title = text('.thing.link a.title') || pageTitle;
+                    score = text('.thing.link .score.unvoted') || undefined;
+                    author = text('.thing.link .author') || undefined;
+                    body = text('.thing.link .usertext-body');
+                    comments = texts('.commentarea > .sitetable > .thing > .entry .md', 5);
+                }
+
+                return {
+                    title,
+                    metadata: { ...base, author, subreddit, score, comments },
+                    rawText: `REDDIT POST in r/${subreddit} (score ${score || '?'}):
+${title}
+
+${body}
+
+Top Comments:
+${comments.join('\n---\n')}`.slice(0, MAX_TEXT)
+                };
+            }
+        },
+        {
+            platform: 'hackernews',
+            matches: () => hostname === 'news.ycombinator.com' && pathname === '/item',
+            extract: async () => {
+                const link = document.querySelector<HTMLAnchorElement>('.titleline > a');
+                const title = clean(link?.textContent) || pageTitle;
+                const points = text('.score') || undefined;
+
+                // Top-level comments only (indent 0)
+                const comments = Array.from(document.querySelectorAll('tr.comtr'))
+                    .filter(row => row.querySelector('td.ind')?.getAttribute('indent') === '0')
+                    .map(row => text('.commtext', row).slice(0, 400))
+                    .filter(Boolean)
+                    .slice(0, 8);
+
+                return {
+                    title,
+                    metadata: { ...base, points, linkUrl: link?.href, comments },
+                    rawText: `HACKER NEWS THREAD (${points || 'no score'}):
+${title}
+Link: ${link?.href || url}
+
+${text('.toptext')}
+
+Top Comments:
+${comments.join('\n---\n')}`.slice(0, MAX_TEXT)
+                };
+            }
+        },
+        {
+            platform: 'arxiv',
+            matches: () => hostname.endsWith('arxiv.org') && pathname.startsWith('/abs/'),
+            extract: async () => {
+                const title = text('h1.title').replace(/^Title:\s*/, '') || pageTitle;
+                const authors = texts('.authors a', 20, 80);
+                const abstract = text('blockquote.abstract').replace(/^Abstract:\s*/, '');
+                const subjects = text('.subjects') || undefined;
+
+                return {
+                    title,
+                    metadata: {
+                        ...base,
+                        author: authors.slice(0, 3).join(', '),
+                        arxivId: pathname.replace('/abs/', ''),
+                        authors,
+                        subjects,
+                    },
+                    rawText: `PAPER: ${title}
+Authors: ${authors.join(', ')}
+Subjects: ${subjects || 'Unknown'}
+
+Abstract: ${abstract}`
+                };
+            }
+        },
+        {
+            platform: 'stackoverflow',
+            matches: () => /(^|\.)(stackoverflow\.com|stackexchange\.com|superuser\.com|serverfault\.com|askubuntu\.com)$/.test(hostname) &&
+                pathname.startsWith('/questions/'),
+            extract: async () => {
+                const title = text('#question-header h1') || pageTitle;
+                const question = text('#question .s-prose');
+                const tags = texts('#question .post-tag', 8, 40);
+                const votes = text('#question .js-vote-count') || undefined;
+
+                const accepted = text('.answer.accepted-answer .s-prose');
+                const answer = accepted || text('.answer .s-prose');
+
+                return {
+                    title,
+                    metadata: { ...base, site: hostname, tags, votes, hasAcceptedAnswer: !!accepted },
+                    rawText: `QUESTION (${votes || 0} votes) [${tags.join(', ')}]:
+${title}
+
+${question.slice(0, 3000)}
+
+${accepted ? 'ACCEPTED ANSWER' : 'TOP ANSWER'}:
+${answer.slice(0, 3500)}`
+                };
+            }
+        },
+        {
+            platform: 'article',
+            // Medium (incl. custom domains) and Substack (incl. custom domains)
+            matches: () =>
+                hostname === 'medium.com' || hostname.endsWith('.medium.com') || hostname.endsWith('.substack.com') ||
+                getMeta('al:android:app_name') === 'Medium' ||
+                !!document.querySelector('link[href*="substackcdn.com"]'),
+            extract: async () => {
+                const isSubstack = !!document.querySelector('link[href*="substackcdn.com"]') || hostname.endsWith('.substack.com');
+                const title = text('h1.post-title') || text('article h1') || text('h1') || pageTitle;
+                const subtitle = text('h3.subtitle') || text('.pw-subtitle-paragraph') || undefined;
+                const body = (isSubstack ? text('.available-content') : text('article')) || readable();
+
+                return {
+                    title,
+                    metadata: {
+                        ...base,
+                        author: getMeta('author') || base.author,
+                        publication: getMeta('og:site_name') || undefined,
+                        subtitle,
+                        publishedAt: getMeta('article:published_time') || undefined,
+                        ...readingTime(body),
+                    },
+                    rawText: `ARTICLE: ${title}
+${subtitle ? `Subtitle: ${subtitle}\n` : ''}
+${body.slice(0, MAX_TEXT)}`
+                };
+            }
+        },
+        {
+            platform: 'web',
+            matches: () => true,
+            extract: async () => {
+                // Generic Web: score the main content instead of trusting <main>/<body>
+                const h1s = Array.from(document.querySelectorAll('h1')).map(el => el.textContent).join('; ');
+                const content = readable();
+
+                return {
+                    metadata: { ...base, ...readingTime(content) },
+                    rawText: `Headings: ${h1s}\n\nContent: ${content.slice(0, MAX_TEXT)}`
+                };
+            }
+        },
+    ];
+
+    const canonicalUrl = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || undefined;
+
+    for (const extractor of registry) {
+        if (!extractor.matches()) continue;
+        try {
+            const result = await extractor.extract();
+            return {
+                url,
+                platform: extractor.platform,
+                title: clean(result.title || pageTitle),
+                rawText: result.rawText,
+                canonicalUrl,
+                metadata: result.metadata
+            } as PagePayload;
+        } catch {
+            // Site markup changed: fall through to the next (ultimately generic) extractor
+        }
     }
 
     return {
         url,
-        platform,
-        title: clean(title),
-        rawText,
-        metadata
+        platform: 'web',
+        title: clean(pageTitle),
+        rawText: clean(document.body.innerText).slice(0, 5000),
+        canonicalUrl,
+        metadata: base
     };
 }
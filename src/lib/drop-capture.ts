@@ -0,0 +1,190 @@
+// Drag-and-drop capture: what was dropped, as cards or as context for an existing card
+import type { CardDraft, ExtraContext } from './types';
+import type { ExtractionPayload } from './content-extractor';
+import { analyzeFile, analyzeLink, analyzeText, filePayload, type CaptureAnalysis } from './capture-analysis';
+import { saveAttachment } from './attachments';
+import { encodeImage } from './image-encode';
+import { extractPdf } from './pdf-extractor';
+import { isPdfFile } from './pdf-source';
+import { parseCaptureList } from './list-parser';
+import { canonicalizeUrl } from './url-canonical';
+
+export type DroppedItem =
+    | { kind: 'url'; url: string; title?: string }
+    | { kind: 'text'; text: string }
+    | { kind: 'file'; file: File }
+    | { kind: 'image'; file?: File; url?: string };
+
+const MAX_CONTEXT_TEXT = 4000;
+const MAX_EXCERPT = 1000;
+
+const isWebUrl = (value: string) => /^https?:\/\/\S+$/.test(value.trim());
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Chrome wraps dragged markup in <meta charset>; an image drag is an <img>, possibly inside a link, and no text
+function draggedImageUrl(html: string): string | undefined {
+    const src = html.match(/<img\b[^>]*\bsrc=["']([^"']+)["']/i)?.[1];
+    return src && isWebUrl(src) && !stripTags(html) ? src : undefined;
+}
+
+/**
+ * Reads a drop. Must run inside the drop handler: the DataTransfer is emptied afterwards.
+ * Files win over their own URL; a pasted-style list of lines becomes one item per line.
+ */
+export function readDrop(data: DataTransfer): DroppedItem[] {
+    const files = Array.from(data.files);
+    if (files.length > 0) {
+        return files.map(file => file.type.startsWith('image/') ? { kind: 'image', file } : { kind: 'file', file });
+    }
+
+    const html = data.getData('text/html');
+    const imageUrl = html && draggedImageUrl(html);
+    if (imageUrl) return [{ kind: 'image', url: imageUrl }];
+
+    const urls = data.getData('text/uri-list')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#') && isWebUrl(line));
+    if (urls.length > 0) {
+        // A single dragged link carries its anchor text in the markup
+        const title = urls.length === 1 && html ? stripTags(html) || undefined : undefined;
+        return urls.map(url => ({ kind: 'url', url, title: title !== url ? title : undefined }));
+    }
+
+    const text = data.getData('text/plain').trim();
+    if (!text) return [];
+    if (isWebUrl(text)) return [{ kind: 'url', url: text }];
+
+    const list = parseCaptureList(text);
+    if (list) {
+        return list.map(item => item.kind === 'url'
+            ? { kind: 'url', url: item.content, title: item.label }
+            : { kind: 'text', text: item.content });
+    }
+    return [{ kind: 'text', text }];
+}
+
+type DroppedImage = Extract<DroppedItem, { kind: 'image' }>;
+
+// Null when the image cannot be fetched or decoded (SVG, broken files)
+async function encodeDroppedImage(item: DroppedImage) {
+    try {
+        const blob = item.file || await fetch(item.url!, { credentials: 'omit' }).then(r => r.ok ? r.blob() : null);
+        return blob ? await encodeImage(blob) : null;
+    } catch {
+        return null;
+    }
+}
+
+// Undecodable images fall back to the file or link they came from
+const imageFallback = (item: DroppedImage): DroppedItem =>
+    item.file ? { kind: 'file', file: item.file } : { kind: 'url', url: item.url! };
+
+const imageLabel = (item: DroppedImage) =>
+    item.file?.name || (item.url && new URL(item.url).pathname.split('/').filter(Boolean).pop()) || 'Image';
+
+// Drops are saved even when analysis fails: pending cards are retried by the service worker
+const analysed = (analysis: CaptureAnalysis | null): Partial<CardDraft> => analysis ? {
+    aiTitle: analysis.result.title,
+    aiSummary: analysis.result.summary,
+    category: analysis.result.category,
+    aiModel: analysis.result.model,
+    startAction: analysis.result.startAction || undefined,
+    estimatedReadMinutes: analysis.readMinutes,
+    analysisStatus: 'done',
+} : { analysisStatus: 'pending' };
+
+const attempt = (run: () => Promise<CaptureAnalysis>) => run().catch(() => null);
+
+export interface DroppedDraft {
+    draft: CardDraft;
+    payload?: ExtractionPayload;    // Queued with an unanalysed file: the service worker cannot reopen it
+}
+
+export async function draftForDrop(item: DroppedItem): Promise<DroppedDraft> {
+    switch (item.kind) {
+        case 'url': {
+            const analysis = await attempt(() => analyzeLink(item.url));
+            return {
+                draft: {
+                    sourceContent: item.url,
+                    sourceType: 'url',
+                    platformName: new URL(item.url).hostname,
+                    canonicalUrl: canonicalizeUrl(item.url, analysis?.canonicalHint),
+                    extractedTitle: analysis?.result.title || item.title,
+                    ...analysed(analysis),
+                },
+            };
+        }
+        case 'text':
+            return {
+                draft: {
+                    sourceContent: item.text,
+                    sourceType: 'text',
+                    ...analysed(await attempt(() => analyzeText(item.text))),
+                },
+            };
+        case 'file': {
+            const analysis = await attempt(() => analyzeFile(item.file));
+            const unanalysed = analysis ? null : await filePayload(item.file).catch(() => null);
+            return {
+                draft: {
+                    sourceContent: item.file.name,
+                    sourceType: 'file',
+                    extractedTitle: item.file.name,
+                    ...analysed(analysis),
+                },
+                payload: unanalysed?.payload,
+            };
+        }
+        case 'image': {
+            // Images are stored like screenshots; the service worker analyses the attachment
+            const image = await encodeDroppedImage(item);
+            if (!image) return draftForDrop(imageFallback(item));
+            return {
+                draft: {
+                    sourceContent: `Image: ${imageLabel(item)}`,
+                    sourceType: 'file',
+                    platformName: item.url ? new URL(item.url).hostname : undefined,
+                    extractedTitle: imageLabel(item),
+                    attachment: await saveAttachment(image.data, image.mimeType, image),
+                    analysisStatus: 'pending',
+                },
+            };
+        }
+    }
+}
+
+async function fileExcerpt(file: File): Promise<string | undefined> {
+    try {
+        if (isPdfFile(file)) return (await extractPdf(await file.arrayBuffer())).text.slice(0, MAX_EXCERPT) || undefined;
+        if (file.type.startsWith('text/')) return (await file.text()).slice(0, MAX_EXCERPT) || undefined;
+    } catch {
+        // Unreadable documents are kept by name only
+    }
+    return undefined;
+}
+
+// Context is recorded as dropped: no analysis, no new loop
+export async function contextForDrop(item: DroppedItem): Promise<ExtraContext> {
+    const addedAt = Date.now();
+    switch (item.kind) {
+        case 'url':
+            return { kind: 'url', content: item.url, title: item.title, addedAt };
+        case 'text':
+            return { kind: 'text', content: item.text.slice(0, MAX_CONTEXT_TEXT), addedAt };
+        case 'file':
+            return { kind: 'file', content: item.file.name, excerpt: await fileExcerpt(item.file), addedAt };
+        case 'image': {
+            const image = await encodeDroppedImage(item);
+            if (!image) return contextForDrop(imageFallback(item));
+            return {
+                kind: 'image',
+                content: imageLabel(item),
+                attachment: await saveAttachment(image.data, image.mimeType, image),
+                addedAt,
+            };
+        }
+    }
+}
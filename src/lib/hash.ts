@@ -0,0 +1,9 @@
+// FNV-1a: a fast, stable 32-bit string hash for change detection and bucketing, not for security
+export function hashText(text: string): number {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+}
@@ -0,0 +1,49 @@
+// Image attachments: cropped, downscaled WebP. Runs wherever OffscreenCanvas exists (worker or page)
+const MAX_IMAGE_WIDTH = 1600;
+const IMAGE_TYPE = 'image/webp';
+const IMAGE_QUALITY = 0.85;
+
+export interface EncodedImage {
+    data: string;               // Base64, no data: prefix
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+// Source pixels of the area to keep
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+// WebP keeps UI text legible at a fraction of PNG size
+export async function encodeImage(source: Blob, crop?: CropRect): Promise<EncodedImage> {
+    const bitmap = await createImageBitmap(source);
+
+    const sx = crop ? Math.round(crop.x) : 0;
+    const sy = crop ? Math.round(crop.y) : 0;
+    const sw = crop ? Math.min(bitmap.width - sx, Math.round(crop.width)) : bitmap.width;
+    const sh = crop ? Math.min(bitmap.height - sy, Math.round(crop.height)) : bitmap.height;
+
+    const ratio = Math.min(1, MAX_IMAGE_WIDTH / sw);
+    const width = Math.round(sw * ratio);
+    const height = Math.round(sh * ratio);
+
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: IMAGE_TYPE, quality: IMAGE_QUALITY });
+    return { data: await blobToBase64(blob), mimeType: IMAGE_TYPE, width, height };
+}
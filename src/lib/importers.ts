@@ -0,0 +1,214 @@
+/// <reference types="chrome"/>
+// Importers for links saved elsewhere: Chrome bookmarks, Netscape HTML, Pocket and Raindrop CSV
+import { storage } from './storage';
+import { canonicalizeUrl } from './url-canonical';
+import type { Card, CardDraft, ImportSourceKind } from './types';
+
+export const IMPORT_SETTINGS_KEY = 'cutoff_import_settings';
+
+export interface ImportSettings {
+    deleteSourceOnDecision: boolean;
+}
+
+export interface ImportedEntry {
+    url: string;
+    title?: string;
+    createdAt?: number;         // Original save date (ms)
+    bookmarkId?: string;
+}
+
+export interface BookmarkFolder {
+    id: string;
+    path: string;
+    linkCount: number;
+}
+
+const isWebUrl = (url: string) => {
+    if (!/^https?:\/\//i.test(url)) return false;
+    try {
+        new URL(url);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// --- Chrome bookmarks ---
+
+export async function listBookmarkFolders(): Promise<BookmarkFolder[]> {
+    const tree = await chrome.bookmarks.getTree();
+    const folders: BookmarkFolder[] = [];
+
+    const walk = (node: chrome.bookmarks.BookmarkTreeNode, path: string[]) => {
+        if (!node.children) return;
+        const nextPath = node.title ? [...path, node.title] : path;
+        if (node.title) {
+            folders.push({
+                id: node.id,
+                path: nextPath.join(' / '),
+                linkCount: node.children.filter(c => c.url && isWebUrl(c.url)).length,
+            });
+        }
+        node.children.forEach(child => walk(child, nextPath));
+    };
+    tree.forEach(root => walk(root, []));
+
+    return folders;
+}
+
+export async function readBookmarkFolder(folderId: string): Promise<ImportedEntry[]> {
+    const [root] = await chrome.bookmarks.getSubTree(folderId);
+    const entries: ImportedEntry[] = [];
+
+    const walk = (node: chrome.bookmarks.BookmarkTreeNode) => {
+        if (node.url && isWebUrl(node.url)) {
+            entries.push({
+                url: node.url,
+                title: node.title || undefined,
+                createdAt: node.dateAdded,
+                bookmarkId: node.id,
+            });
+        }
+        node.children?.forEach(walk);
+    };
+    if (root) walk(root);
+
+    return entries;
+}
+
+// --- Netscape bookmark HTML (exported by every browser) ---
+
+export function parseNetscapeBookmarks(html: string): ImportedEntry[] {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    return Array.from(doc.querySelectorAll('a[href]'))
+        .map(a => {
+            const addDate = Number(a.getAttribute('add_date'));
+            return {
+                url: a.getAttribute('href') || '',
+                title: a.textContent?.trim() || undefined,
+                createdAt: addDate > 0 ? addDate * 1000 : undefined, // ADD_DATE is unix seconds
+            };
+        })
+        .filter(entry => isWebUrl(entry.url));
+}
+
+// --- CSV (Pocket, Raindrop) ---
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const parseDate = (value: string | undefined): number | undefined => {
+    if (!value) return undefined;
+    // Pocket uses unix seconds, Raindrop ISO 8601
+    const ms = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value);
+    return Number.isFinite(ms) && ms > 0 ? ms : undefined;
+};
+
+export function parseBookmarkCsv(text: string): { kind: ImportSourceKind; entries: ImportedEntry[] } | null {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return null;
+
+    const columns = header.map(h => h.trim().toLowerCase());
+    const col = (name: string) => columns.indexOf(name);
+    const urlCol = col('url');
+    if (urlCol === -1) return null;
+
+    // Pocket: title,url,time_added,tags,status — Raindrop: id,title,note,excerpt,url,folder,tags,created,...
+    const isPocket = col('time_added') !== -1;
+    const dateCol = isPocket ? col('time_added') : col('created');
+    const titleCol = col('title');
+    const statusCol = col('status');
+
+    const entries = rows
+        // Archived Pocket items were already read; importing them would invent loops
+        .filter(r => !isPocket || statusCol === -1 || r[statusCol] !== 'archive')
+        .map(r => ({
+            url: (r[urlCol] || '').trim(),
+            title: titleCol !== -1 ? r[titleCol]?.trim() || undefined : undefined,
+            createdAt: dateCol !== -1 ? parseDate(r[dateCol]) : undefined,
+        }))
+        .filter(entry => isWebUrl(entry.url));
+
+    return { kind: isPocket ? 'pocket-csv' : 'raindrop-csv', entries };
+}
+
+// --- Cards ---
+
+// existingUrls holds canonical URLs (see url-canonical.ts)
+export function entriesToDrafts(entries: ImportedEntry[], kind: ImportSourceKind, existingUrls: Set<string>): CardDraft[] {
+    const seen = new Set(existingUrls);
+    const importedAt = Date.now();
+    const drafts: CardDraft[] = [];
+
+    for (const entry of entries) {
+        const canonicalUrl = canonicalizeUrl(entry.url);
+        if (seen.has(canonicalUrl)) continue;
+        seen.add(canonicalUrl);
+
+        drafts.push({
+            sourceContent: entry.url,
+            sourceType: 'url',
+            platformName: new URL(entry.url).hostname,
+            extractedTitle: entry.title,
+            canonicalUrl,
+            createdAt: entry.createdAt,
+            importSource: { kind, bookmarkId: entry.bookmarkId, importedAt },
+        });
+    }
+
+    return drafts;
+}
+
+// Decided cards no longer need their bookmark; removal is opt-in
+export async function releaseImportSource(card: Card): Promise<void> {
+    const bookmarkId = card.importSource?.bookmarkId;
+    if (!bookmarkId || typeof chrome === 'undefined' || !chrome.bookmarks) return;
+
+    const settings = await storage.get<ImportSettings>(IMPORT_SETTINGS_KEY);
+    if (!settings?.deleteSourceOnDecision) return;
+
+    try {
+        await chrome.bookmarks.remove(bookmarkId);
+    } catch {
+        // Already removed by the user
+    }
+}
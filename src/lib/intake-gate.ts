@@ -0,0 +1,96 @@
+// Intake gate: while the system is overloaded, new captures wait in quarantine
+import { v4 as uuidv4 } from 'uuid';
+import { storage } from './storage';
+import { calculateSystemState, type Card, type CardDraft, type SystemState } from './types';
+
+export const GATE_SETTINGS_KEY = 'cutoff_gate_settings';
+export const QUARANTINE_KEY = 'cutoff_quarantine';
+
+export interface GateSettings {
+    enabled: boolean;
+    gatedStates: SystemState[];     // States that close the gate
+    closuresRequired: number;       // Loops to close before a held capture is admitted
+    expiryHours: number;            // Held captures older than this are dropped
+    strict: boolean;                // Strict: only closures admit. Lenient: leaving the gated state also admits
+}
+
+export const DEFAULT_GATE_SETTINGS: GateSettings = {
+    enabled: false,
+    gatedStates: ['critical', 'deferred'],
+    closuresRequired: 2,
+    expiryHours: 72,
+    strict: false,
+};
+
+export interface QuarantinedCapture {
+    id: string;
+    draft: CardDraft;
+    identity?: string;          // Canonical URL for links
+    heldAt: number;
+    expiresAt: number;
+}
+
+export interface QuarantineReview {
+    admitted: QuarantinedCapture[];
+    expired: QuarantinedCapture[];
+    remaining: QuarantinedCapture[];
+}
+
+export async function getGateSettings(): Promise<GateSettings> {
+    const stored = await storage.get<Partial<GateSettings>>(GATE_SETTINGS_KEY);
+    return { ...DEFAULT_GATE_SETTINGS, ...stored };
+}
+
+export const readQuarantine = async () => (await storage.get<QuarantinedCapture[]>(QUARANTINE_KEY)) || [];
+
+export function isGateClosed(cards: Card[], settings: GateSettings): boolean {
+    return settings.enabled && settings.gatedStates.includes(calculateSystemState(cards));
+}
+
+// Loops closed (discarded, or executed to the end) since a capture was held
+export const closuresSince = (cards: Card[], since: number) =>
+    cards.filter(c => c.closedAt !== undefined && c.closedAt > since).length;
+
+// A capture of the same thing that is already held is not held twice
+export async function holdCapture(draft: CardDraft, settings: GateSettings, identity: string | null): Promise<QuarantinedCapture> {
+    const quarantine = await readQuarantine();
+    const existing = quarantine.find(q =>
+        identity ? q.identity === identity : !draft.attachment && q.draft.sourceContent === draft.sourceContent
+    );
+    if (existing) return existing;
+
+    const now = Date.now();
+    const held: QuarantinedCapture = {
+        id: uuidv4(),
+        draft,
+        identity: identity || undefined,
+        heldAt: now,
+        expiresAt: now + settings.expiryHours * 60 * 60 * 1000,
+    };
+    await storage.set(QUARANTINE_KEY, [...quarantine, held]);
+    return held;
+}
+
+// Pure: decides which held captures are admitted, expired or still waiting
+export function reviewQuarantine(quarantine: QuarantinedCapture[], cards: Card[], settings: GateSettings, now = Date.now()): QuarantineReview {
+    const review: QuarantineReview = { admitted: [], expired: [], remaining: [] };
+    const gateOpen = !isGateClosed(cards, settings);
+
+    for (const held of quarantine) {
+        if (held.expiresAt <= now) {
+            review.expired.push(held);
+        } else if (
+            !settings.enabled ||
+            closuresSince(cards, held.heldAt) >= settings.closuresRequired ||
+            (!settings.strict && gateOpen)
+        ) {
+            review.admitted.push(held);
+        } else {
+            review.remaining.push(held);
+        }
+    }
+    return review;
+}
+
+export const dropFromQuarantine = async (id: string) =>
+    storage.set(QUARANTINE_KEY, (await readQuarantine()).filter(q => q.id !== id));
@@ -0,0 +1,83 @@
+// Pasted lists: newline-separated URLs, markdown bullets or numbered items become one capture each
+
+export type ListItemKind = 'url' | 'text';
+
+export interface ListItem {
+    kind: ListItemKind;
+    content: string;            // URL for links, the item text otherwise
+    label?: string;             // Text around a URL ("- [Title](url)" or "Title: url")
+}
+
+const MIN_ITEMS = 2;
+const MAX_ITEMS = 50;
+
+const BULLET = /^\s*[-*+•‣◦▪]\s+(?:\[[ xX]\]\s+)?/;
+const NUMBERED = /^\s*\(?\d{1,3}[.)]\s+/;
+const URL_PATTERN = /https?:\/\/[^\s<>()"']+[^\s<>()"'.,;:!?]/;
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/;
+
+const hasWords = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+const isUrlLine = (line: string) => /^https?:\/\/\S+$/.test(line.trim());
+
+function toItem(text: string): ListItem | null {
+    const content = text.replace(/\s+/g, ' ').trim();
+    if (!content) return null;
+
+    const markdown = content.match(MARKDOWN_LINK);
+    if (markdown) {
+        const rest = content.replace(markdown[0], '').replace(/^[\s:–—-]+|[\s:–—-]+$/g, '');
+        return { kind: 'url', content: markdown[2], label: hasWords(rest) ? `${markdown[1]} — ${rest}` : markdown[1] };
+    }
+
+    const url = content.match(URL_PATTERN);
+    if (url) {
+        const label = content.replace(url[0], '').replace(/^[\s:–—-]+|[\s:–—-]+$/g, '');
+        return { kind: 'url', content: url[0], label: hasWords(label) ? label : undefined };
+    }
+
+    return { kind: 'text', content };
+}
+
+// Items from a marker-based list; unmarked lines continue the previous item
+function splitMarked(lines: string[], marker: RegExp): string[] | null {
+    const items: string[] = [];
+    for (const line of lines) {
+        if (marker.test(line)) {
+            items.push(line.replace(marker, ''));
+        } else if (items.length > 0) {
+            items[items.length - 1] += ' ' + line.trim();
+        } else {
+            // Leading prose ("Reading list:") is a heading, not an item
+            continue;
+        }
+    }
+    return items.length >= MIN_ITEMS ? items : null;
+}
+
+/**
+ * Returns the items of a pasted list, or null when the text is one piece of content.
+ * A list is: every line a URL, or most lines starting with a bullet / number.
+ */
+export function parseCaptureList(text: string): ListItem[] | null {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < MIN_ITEMS) return null;
+
+    let raw: string[] | null = null;
+    if (lines.every(isUrlLine)) {
+        raw = lines;
+    } else {
+        const bullets = lines.filter(line => BULLET.test(line)).length;
+        const numbered = lines.filter(line => NUMBERED.test(line)).length;
+        const marker = bullets >= numbered ? BULLET : NUMBERED;
+        // Prose with a stray dash or number is not a list
+        if (Math.max(bullets, numbered) >= Math.max(MIN_ITEMS, lines.length / 2)) {
+            raw = splitMarked(lines, marker);
+        }
+    }
+    if (!raw) return null;
+
+    const items = raw.map(toItem).filter((item): item is ListItem => item !== null);
+    const unique = items.filter((item, i) => items.findIndex(other => other.content === item.content) === i);
+    return unique.length >= MIN_ITEMS ? unique.slice(0, MAX_ITEMS) : null;
+}
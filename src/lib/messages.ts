@@ -0,0 +1,39 @@
+/// <reference types="chrome"/>
+// Runtime messages exchanged between extension pages and the service worker
+import type { ExtractionPayload } from './content-extractor';
+
+// Storage handoff: card id the side panel should open straight into the gate
+export const PENDING_CONFRONTATION_KEY = 'cutoff_pending_confrontation';
+
+export interface TabCaptureRequest {
+    windowId?: number;
+    groupId?: number;           // Set to capture one tab group instead of the window
+    closeTabs: boolean;
+}
+
+export interface TabCaptureResult {
+    captured: number;
+    duplicates: number;         // Merged into an open card (or repeated in the batch)
+    skipped: number;            // chrome://, extension and other non-web pages
+    held: number;               // Intake gate closed: waiting in quarantine
+    error?: string;             // The capture failed; nothing is reported as captured
+}
+
+export type RuntimeMessage =
+    | { type: 'cutoff:queue-analysis'; cardId: string; payload?: ExtractionPayload }  // Saved without analysis
+    | { type: 'cutoff:retry-analysis'; cardId: string }
+    | { type: 'cutoff:reanalyze'; cardId: string }      // Analysed already: bypass the cache
+    | { type: 'cutoff:retry-all-analyses' }
+    | { type: 'cutoff:capture-tabs'; request: TabCaptureRequest }
+    | { type: 'cutoff:admit-quarantine' }      // Loops were closed: re-check held captures
+    | { type: 'cutoff:read-pdf'; url: string };  // Service worker to the offscreen document
+
+export async function sendRuntimeMessage<T = void>(message: RuntimeMessage): Promise<T | undefined> {
+    if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return undefined;
+    try {
+        return await chrome.runtime.sendMessage(message) as T;
+    } catch {
+        // Service worker may be restarting; the message is best-effort
+        return undefined;
+    }
+}
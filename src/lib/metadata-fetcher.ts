@@ -1,54 +1,259 @@
+// Page metadata over plain fetch: no DOM, so it runs in the service worker too
+import type { PagePayload } from './content-extractor';
 
-export async function fetchPageMetadata(url: string): Promise<{ title?: string, description?: string, rawText?: string, error?: string }> {
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_BYTES = 1024 * 1024;      // Enough for <head> and the start of the body
+const MAX_TEXT = 5000;
+const CHARSET_SNIFF_BYTES = 2048;
+
+export interface PageMetadata {
+    url: string;                // Final URL after redirects
+    contentType?: string;
+    canonicalUrl?: string;      // Absolute <link rel=canonical> / og:url
+    title?: string;
+    description?: string;
+    author?: string;
+    siteName?: string;
+    type?: string;              // og:type, else the first JSON-LD @type
+    publishedAt?: string;
+    keywords: string[];
+    image?: string;
+    favicon?: string;
+    jsonLd: Record<string, unknown>[];
+    rawText?: string;           // Recognition text for the AI
+    error?: string;
+}
+
+export interface FetchMetadataOptions {
+    timeoutMs?: number;
+}
+
+type Attributes = Record<string, string>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+    hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+    middot: '·', bull: '•', copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥',
+};
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+const clean = (text?: string) => {
+    const value = text ? decodeEntities(text).replace(/\s+/g, ' ').trim() : '';
+    return value || undefined;
+};
+
+function parseAttributes(source: string): Attributes {
+    const attributes: Attributes = {};
+    const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    for (const match of source.matchAll(pattern)) {
+        attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    return attributes;
+}
+
+const tagsOf = (html: string, tag: string) =>
+    Array.from(html.matchAll(new RegExp(`<${tag}\\b([^>]*)>`, 'gi')), m => parseAttributes(m[1]));
+
+const resolveUrl = (href: string | undefined, base: string) => {
+    if (!href) return undefined;
     try {
-        const response = await fetch(url.trim(), {
+        return new URL(decodeEntities(href.trim()), base).href;
+    } catch {
+        return undefined;
+    }
+};
+
+// Header charset wins; otherwise <meta charset> / http-equiv in the first bytes; else UTF-8
+function detectCharset(contentType: string | null, bytes: Uint8Array): string {
+    const fromHeader = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+    if (fromHeader) return fromHeader;
+
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, CHARSET_SNIFF_BYTES));
+    return head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+}
+
+function decodeBody(bytes: Uint8Array, charset: string): string {
+    try {
+        return new TextDecoder(charset).decode(bytes);
+    } catch {
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+}
+
+// Reads at most MAX_BYTES, then drops the connection
+async function readCapped(response: Response): Promise<Uint8Array> {
+    if (!response.body) return new Uint8Array(await response.arrayBuffer()).subarray(0, MAX_BYTES);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    while (total < MAX_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        total += value.length;
+    }
+    reader.cancel().catch(() => { /* already closed */ });
+
+    const bytes = new Uint8Array(Math.min(total, MAX_BYTES));
+    let offset = 0;
+    for (const chunk of chunks) {
+        const slice = chunk.subarray(0, bytes.length - offset);
+        bytes.set(slice, offset);
+        offset += slice.length;
+        if (offset >= bytes.length) break;
+    }
+    return bytes;
+}
+
+// JSON-LD blocks, with @graph and top-level arrays flattened
+function parseJsonLd(html: string): Record<string, unknown>[] {
+    const blocks = html.matchAll(/<script\b[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+    return Array.from(blocks).flatMap(([, json]) => {
+        try {
+            const data = JSON.parse(json.trim());
+            const items = Array.isArray(data) ? data : [data];
+            return items.flatMap(item => Array.isArray(item?.['@graph']) ? item['@graph'] : [item]);
+        } catch {
+            return [];
+        }
+    }).filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+}
+
+const jsonLdName = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return jsonLdName(value[0]);
+    if (value && typeof value === 'object' && 'name' in value) return jsonLdName((value as { name: unknown }).name);
+    return undefined;
+};
+
+const jsonLdType = (item: Record<string, unknown>) => jsonLdName(item['@type']);
+
+function visibleText(html: string): string {
+    const body = html.match(/<body\b[^>]*>([\s\S]*)/i)?.[1] ?? html;
+    const stripped = body
+        .replace(/<(script|style|noscript|svg|template|iframe)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<(nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<[^>]+>/g, ' ');
+    return (clean(stripped) || '').slice(0, MAX_TEXT);
+}
+
+export function parseHtmlMetadata(html: string, url: string): Omit<PageMetadata, 'contentType'> {
+    const metaTags = tagsOf(html, 'meta');
+    const meta = (...names: string[]) => {
+        for (const name of names) {
+            const tag = metaTags.find(t => (t.property || t.name || t.itemprop || '').toLowerCase() === name);
+            const value = clean(tag?.content);
+            if (value) return value;
+        }
+        return undefined;
+    };
+
+    const links = tagsOf(html, 'link');
+    const link = (...rels: string[]) => links.find(l => {
+        const rel = (l.rel || '').toLowerCase().split(/\s+/);
+        return rels.some(r => rel.includes(r));
+    })?.href;
+
+    const jsonLd = parseJsonLd(html);
+    const primary = jsonLd.find(item => /Article|Posting|VideoObject|Product|Recipe|Book|Event|WebPage/i.test(jsonLdType(item) || ''));
+
+    const title = meta('og:title', 'twitter:title') ||
+        clean(jsonLdName(primary?.headline) || jsonLdName(primary?.name)) ||
+        clean(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]);
+    const description = meta('og:description', 'twitter:description', 'description') ||
+        clean(jsonLdName(primary?.description));
+    // article:author is often a profile URL; prefer a name when there is one
+    const authorMeta = meta('author', 'article:author', 'twitter:creator');
+    const author = authorMeta && !/^https?:\/\//.test(authorMeta)
+        ? authorMeta
+        : clean(jsonLdName(primary?.author)) || authorMeta;
+    const keywords = (meta('keywords', 'news_keywords') || '')
+        .split(',').map(k => k.trim()).filter(Boolean).slice(0, 20);
+
+    const text = visibleText(html);
+
+    return {
+        url,
+        canonicalUrl: resolveUrl(link('canonical') || meta('og:url'), url),
+        title,
+        description,
+        author,
+        siteName: meta('og:site_name', 'application-name') || clean(jsonLdName(primary?.publisher)),
+        type: meta('og:type') || (primary ? jsonLdType(primary) : undefined),
+        publishedAt: meta('article:published_time', 'datepublished') || clean(jsonLdName(primary?.datePublished)),
+        keywords,
+        image: resolveUrl(meta('og:image', 'twitter:image', 'twitter:image:src'), url),
+        favicon: resolveUrl(link('icon', 'apple-touch-icon') || '/favicon.ico', url),
+        jsonLd: jsonLd.slice(0, 5),
+        rawText: `Title: ${title || 'Unknown'}
+Author: ${author || 'Unknown'}
+Site: ${meta('og:site_name') || new URL(url).hostname}
+Description: ${description || 'None'}
+Content Preview: ${text}`,
+    };
+}
+
+export async function fetchPageMetadata(url: string, options: FetchMetadataOptions = {}): Promise<PageMetadata> {
+    const target = url.trim();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(target, {
             method: 'GET',
+            signal: controller.signal,
+            credentials: 'omit',
             headers: {
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
             }
         });
 
         if (!response.ok) {
-            return { error: `HTTP ${response.status}` };
+            return { url: target, keywords: [], jsonLd: [], error: `HTTP ${response.status}` };
         }
 
-        const text = await response.text();
-
-        // Simple regex extraction
-        const titleMatch = text.match(/<title[^>]*>([^<]+)<\/title>/i);
-        const descMatch = text.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["'][^>]*>/i) ||
-            text.match(/<meta[^>]*content=["']([^"']+)["'][^>]*name=["']description["'][^>]*>/i) ||
-            text.match(/<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-
-        // Also try get Author
-        const authorMatch = text.match(/<meta[^>]*name=["']author["'][^>]*content=["']([^"']+)["'][^>]*>/i) ||
-            text.match(/<link[^>]*rel=["']author["'][^>]*href=["']([^"']+)["'][^>]*>/i);
-
-        const title = titleMatch ? decodeHTML(titleMatch[1].trim()) : undefined;
-        const description = descMatch ? decodeHTML(descMatch[1].trim()) : undefined;
-        const author = authorMatch ? decodeHTML(authorMatch[1].trim()) : undefined;
-
-        // Construct a pseudo-rawText for AI
-        const rawText = `
-        Title: ${title || 'Unknown'}
-        Author: ${author || 'Unknown'}
-        Description: ${description || 'None'}
-        Content Preview: ${text.slice(0, 5000).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()}
-        `;
-
-        return {
-            title,
-            description,
-            rawText
-        };
-    } catch {
-        return { error: 'Failed to fetch URL' };
+        const contentType = response.headers.get('content-type') || undefined;
+        const finalUrl = response.url || target;
+        if (contentType && !/html|xml/i.test(contentType)) {
+            response.body?.cancel().catch(() => { /* already closed */ });
+            return { url: finalUrl, contentType, keywords: [], jsonLd: [], error: 'Not an HTML page' };
+        }
+
+        const bytes = await readCapped(response);
+        const html = decodeBody(bytes, detectCharset(response.headers.get('content-type'), bytes));
+        return { ...parseHtmlMetadata(html, finalUrl), contentType };
+    } catch (error) {
+        const timedOut = error instanceof DOMException && error.name === 'AbortError';
+        return { url: target, keywords: [], jsonLd: [], error: timedOut ? 'Timed out' : 'Failed to fetch URL' };
+    } finally {
+        clearTimeout(timer);
     }
 }
 
-// Simple HTML entity decoder
-function decodeHTML(html: string) {
-    const txt = document.createElement("textarea");
-    txt.innerHTML = html;
-    return txt.value;
+// Same shape as a scripted extraction, for pages we could not inject into
+export function metadataToPayload(metadata: PageMetadata): PagePayload | null {
+    if (metadata.error) return null;
+    return {
+        url: metadata.url,
+        platform: 'web',
+        title: metadata.title || 'Link',
+        rawText: metadata.rawText || `URL: ${metadata.url}`,
+        canonicalUrl: metadata.canonicalUrl,
+        metadata: {
+            description: metadata.description,
+            author: metadata.author,
+            keywords: metadata.keywords.join(', ') || undefined,
+        }
+    };
 }
@@ -0,0 +1,86 @@
+// Local PDF text extraction (extension pages and the offscreen document only: pdf.js needs a Worker)
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { isPdfContentType, isPdfUrl, pdfLinkRead, type PdfExtraction, type PdfRead } from './pdf-source';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+const MAX_PAGES = 5;
+const MAX_TEXT = 8000;
+const MAX_OUTLINE_ENTRIES = 40;
+export const MAX_PDF_BYTES = 50 * 1024 * 1024;
+
+interface OutlineNode {
+    title: string;
+    items: OutlineNode[];
+}
+
+const flattenOutline = (nodes: OutlineNode[], depth = 0): string[] =>
+    nodes.flatMap(node => [
+        `${'  '.repeat(depth)}${node.title.trim()}`,
+        ...(depth < 1 ? flattenOutline(node.items || [], depth + 1) : []),
+    ]);
+
+export async function extractPdf(data: ArrayBuffer): Promise<PdfExtraction> {
+    // Fonts are never rendered, and eval is blocked by the extension CSP anyway
+    const doc = await getDocument({ data, isEvalSupported: false, disableFontFace: true }).promise;
+
+    try {
+        const [{ info }, outline] = await Promise.all([
+            doc.getMetadata().catch(() => ({ info: {} })),
+            doc.getOutline().catch(() => null),
+        ]);
+        const meta = info as { Title?: string; Author?: string };
+
+        const pagesRead = Math.min(doc.numPages, MAX_PAGES);
+        const pages: string[] = [];
+        for (let i = 1; i <= pagesRead; i++) {
+            const page = await doc.getPage(i);
+            const content = await page.getTextContent();
+            const pageText = content.items
+                .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+                .join('')
+                .replace(/[ \t]+/g, ' ')
+                .trim();
+            pages.push(pageText);
+            if (pages.join('\n\n').length >= MAX_TEXT) break;
+        }
+
+        return {
+            pageCount: doc.numPages,
+            pagesRead: pages.length,
+            title: meta.Title?.trim() || undefined,
+            author: meta.Author?.trim() || undefined,
+            outline: flattenOutline((outline || []) as OutlineNode[]).slice(0, MAX_OUTLINE_ENTRIES),
+            text: pages.join('\n\n').slice(0, MAX_TEXT),
+        };
+    } finally {
+        await doc.destroy();
+    }
+}
+
+// PDF tabs render in Chrome's viewer, which cannot be scripted: fetch the file itself
+export async function fetchPdf(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`PDF fetch failed (${response.status})`);
+    if (!isPdfUrl(url) && !isPdfContentType(response.headers.get('content-type'))) {
+        response.body?.cancel().catch(() => { /* already closed */ });
+        throw new Error('Not a PDF');
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    if (length > MAX_PDF_BYTES) throw new Error('PDF too large');
+
+    const buffer = await response.arrayBuffer();
+    if (buffer.byteLength > MAX_PDF_BYTES) throw new Error('PDF too large');
+    return buffer;
+}
+
+// Null when the link is not a PDF or cannot be read
+export async function readPdfLink(url: string): Promise<PdfRead | null> {
+    try {
+        return pdfLinkRead(url, await extractPdf(await fetchPdf(url)));
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,57 @@
+// PDF detection and payload shaping, free of pdf.js so the service worker can use it
+import type { ExtractionPayload } from './content-extractor';
+
+export interface PdfExtraction {
+    pageCount: number;
+    pagesRead: number;
+    title?: string;
+    author?: string;
+    outline: string[];          // Top two levels, indented
+    text: string;               // First pages, trimmed
+}
+
+// A PDF link read into an analysis payload
+export interface PdfRead {
+    payload: ExtractionPayload;
+    readMinutes: number;
+}
+
+export const isPdfFile = (file: File) =>
+    file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// By the URL alone; links without a .pdf path are known by their content type
+export const isPdfUrl = (url: string) => {
+    try {
+        const { hostname, pathname } = new URL(url);
+        return /\.pdf$/i.test(pathname) || (hostname.endsWith('arxiv.org') && pathname.startsWith('/pdf/'));
+    } catch {
+        return false;
+    }
+};
+
+export const isPdfContentType = (contentType?: string | null) =>
+    !!contentType && /^application\/(x-)?pdf\b/i.test(contentType.trim());
+
+// Recognition text for the AI: metadata first, then structure, then the opening pages
+export function pdfToRawText(pdf: PdfExtraction, name: string): string {
+    return `PDF: ${pdf.title || name}
+Author: ${pdf.author || 'Unknown'}
+Pages: ${pdf.pageCount}
+${pdf.outline.length > 0 ? `\nOutline:\n${pdf.outline.join('\n')}\n` : ''}
+Text (first ${pdf.pagesRead} of ${pdf.pageCount} pages):
+${pdf.text || '[No text layer: scanned document]'}`;
+}
+
+export function pdfLinkRead(url: string, pdf: PdfExtraction): PdfRead {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'document.pdf');
+    return {
+        payload: {
+            url,
+            platform: 'file',
+            title: pdf.title || name,
+            rawText: pdfToRawText(pdf, name),
+            metadata: { pageCount: pdf.pageCount, author: pdf.author }
+        },
+        readMinutes: pdf.pageCount * 2, // ~2 minutes per page
+    };
+}
@@ -0,0 +1,79 @@
+// Reality Check: the unpleasant truth about one card, stated without advice (see docs/BRAND_PRINCIPLES.md)
+import { formatTimeSince, type Card } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STATEMENT_LENGTH = 220;
+
+export interface RealityFacts {
+    title: string;
+    ageDays: number;
+    savedAgo: string;               // "3 days ago"
+    confrontations: number;         // Including this one
+    shadowed: boolean;              // Deferred before, or an execute session was aborted
+    recaptures: number;
+    similarTotal: number;           // Other cards sharing category, domain or tags
+    similarDiscarded: number;
+    similarOpen: number;
+}
+
+// Similar = same domain, or same category plus a shared tag
+function isSimilar(a: Card, b: Card): boolean {
+    if (a.platformName && a.platformName === b.platformName) return true;
+    if (!a.category || a.category !== b.category) return false;
+    const tags = new Set((a.aiTags || []).map(t => t.toLowerCase()));
+    return (b.aiTags || []).some(t => tags.has(t.toLowerCase()));
+}
+
+export function collectRealityFacts(card: Card, cards: Card[]): RealityFacts {
+    const similar = cards.filter(c => c.id !== card.id && isSimilar(card, c));
+    return {
+        title: card.aiTitle || card.extractedTitle || card.sourceContent.slice(0, 80),
+        ageDays: Math.floor((Date.now() - card.createdAt) / DAY_MS),
+        savedAgo: formatTimeSince(card.createdAt),
+        confrontations: card.totalConfrontations,
+        shadowed: card.decision === 'shadow' || card.executeResult === 'aborted',
+        recaptures: card.recaptureCount || 0,
+        similarTotal: similar.length,
+        similarDiscarded: similar.filter(c => c.state === 'discarded').length,
+        similarOpen: similar.filter(c => c.state === 'uncommitted' || c.state === 'shadowed').length,
+    };
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Used when no AI is available, and whenever the AI breaks the tone rules
+export function staticRealityStatement(facts: RealityFacts): string {
+    if (facts.shadowed && facts.confrontations > 2) {
+        return `Deferred before. Opened ${plural(facts.confrontations, 'time')}. Deferring again changes nothing.`;
+    }
+    if (facts.similarDiscarded >= 2) {
+        return `${plural(facts.similarDiscarded, 'similar item')} already discarded. This one is the same kind of loop.`;
+    }
+    if (facts.recaptures > 0) {
+        return `Saved ${plural(facts.recaptures + 1, 'time')}. Saving it again was not progress.`;
+    }
+    if (facts.similarOpen >= 3) {
+        return `${plural(facts.similarOpen, 'similar loop')} also open. None of them moved.`;
+    }
+    if (facts.ageDays >= 7) {
+        return `Untouched for ${plural(facts.ageDays, 'day')}. The only effect was reduced anxiety.`;
+    }
+    return 'Saving it was not progress. The only effect was reduced anxiety.';
+}
+
+// Questions, comfort and advice are not part of the voice
+const FORBIDDEN = [
+    /\?/,
+    /\bmaybe\b/i,
+    /\blater\b/i,
+    /\beasy\b/i,
+    /\bhelp/i,
+    /\b(you )?(should|could|might|can|try|consider)\b/i,
+    /\b(don't worry|it's okay|it's ok|no pressure|great|good job|well done)\b/i,
+    /!/,
+];
+
+export function isBrandCompliant(statement: string): boolean {
+    const text = statement.trim();
+    return text.length > 0 && text.length <= MAX_STATEMENT_LENGTH && !FORBIDDEN.some(pattern => pattern.test(text));
+}
@@ -0,0 +1,48 @@
+// Text fragment links (#:~:text=) that scroll a page to a captured passage
+
+const MAX_EXACT_LENGTH = 120;
+const EDGE_WORDS = 5;       // textStart / textEnd length for long passages
+const CONTEXT_WORDS = 3;    // prefix / suffix length for short passages
+const SHORT_PASSAGE_WORDS = 4;
+
+// '-' delimits prefix/suffix in the directive, and encodeURIComponent leaves it alone
+const encodePart = (text: string) => encodeURIComponent(text).replace(/-/g, '%2D');
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds `url#:~:text=[prefix-,]start[,end][,-suffix]` for a selection.
+ * Long passages use start/end words; short ones are disambiguated with the
+ * words around them in `context` (the surrounding paragraph).
+ */
+export function buildTextFragmentUrl(url: string, excerpt: string, context?: string): string {
+    const base = url.split('#')[0];
+    const passage = normalize(excerpt);
+    const passageWords = words(passage);
+    if (passageWords.length === 0) return base;
+
+    const parts: string[] = [];
+
+    if (passageWords.length <= SHORT_PASSAGE_WORDS && context) {
+        const paragraph = normalize(context);
+        const at = paragraph.indexOf(passage);
+        if (at !== -1) {
+            const prefix = words(paragraph.slice(0, at)).slice(-CONTEXT_WORDS).join(' ');
+            const suffix = words(paragraph.slice(at + passage.length)).slice(0, CONTEXT_WORDS).join(' ');
+            if (prefix) parts.push(`${encodePart(prefix)}-`);
+            parts.push(encodePart(passage));
+            if (suffix) parts.push(`-${encodePart(suffix)}`);
+            return `${base}#:~:text=${parts.join(',')}`;
+        }
+    }
+
+    if (passage.length <= MAX_EXACT_LENGTH || passageWords.length <= EDGE_WORDS * 2) {
+        parts.push(encodePart(passage));
+    } else {
+        parts.push(encodePart(passageWords.slice(0, EDGE_WORDS).join(' ')));
+        parts.push(encodePart(passageWords.slice(-EDGE_WORDS).join(' ')));
+    }
+    return `${base}#:~:text=${parts.join(',')}`;
+}
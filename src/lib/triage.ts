@@ -0,0 +1,54 @@
+// Triage: one proposed decision per uncommitted card, accepted or overridden in a single pass
+import { collectRealityFacts, type RealityFacts } from './reality-check';
+import type { Card } from './types';
+
+export type TriageDecision = 'execute' | 'shadow' | 'discard';
+
+export const TRIAGE_DECISIONS: TriageDecision[] = ['execute', 'shadow', 'discard'];
+
+export interface TriageProposal {
+    decision: TriageDecision;
+    rationale: string;              // One declarative line, same voice as the reality check
+}
+
+// Reality facts plus what decides whether a loop fits in one session
+export interface TriageInput extends RealityFacts {
+    id: string;
+    summary?: string;
+    category?: string;
+    firstStep?: string;
+    readMinutes?: number;
+}
+
+export function triageInputOf(card: Card, cards: Card[]): TriageInput {
+    return {
+        ...collectRealityFacts(card, cards),
+        id: card.id,
+        summary: card.aiSummary?.slice(0, 300),
+        category: card.category,
+        firstStep: card.startAction,
+        readMinutes: card.estimatedReadMinutes,
+    };
+}
+
+const STALE_DAYS = 30;
+
+// Used when no AI is available, and for cards the AI skipped or answered off-tone
+export function fallbackProposal(input: TriageInput): TriageProposal {
+    if (input.shadowed && input.confrontations >= 2) {
+        return { decision: 'discard', rationale: 'Deferred before. Deferring again changes nothing.' };
+    }
+    if (input.similarDiscarded >= 2) {
+        return { decision: 'discard', rationale: `${input.similarDiscarded} similar items already discarded. Same loop.` };
+    }
+    if (input.ageDays >= STALE_DAYS) {
+        return { decision: 'discard', rationale: `Untouched for ${input.ageDays} days. Nothing depended on it.` };
+    }
+    if (input.recaptures > 0) {
+        return { decision: 'execute', rationale: `Saved ${input.recaptures + 1} times. It keeps coming back.` };
+    }
+    if (input.firstStep && (input.readMinutes ?? 15) <= 15) {
+        return { decision: 'execute', rationale: 'A first step exists and fits in one session.' };
+    }
+    return { decision: 'shadow', rationale: 'No first step defined. The loop stays open.' };
+}
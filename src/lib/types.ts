@@ -24,6 +24,55 @@ export type SourceType = 'url' | 'text' | 'file';
 // AI Categories
 export type Category = 'Learning' | 'Tool' | 'Idea' | 'Content' | 'Reference' | 'Opportunity';
 
+export const CATEGORIES: Category[] = ['Learning', 'Tool', 'Idea', 'Content', 'Reference', 'Opportunity'];
+
+// Case-insensitive; anything else is not a category
+export const toCategory = (value: unknown): Category | undefined =>
+    typeof value === 'string' ? CATEGORIES.find(c => c.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+// Background AI analysis (captures made outside CaptureModal)
+export type AnalysisStatus =
+    | 'pending'       // Waiting for a (re)try
+    | 'analyzing'     // Request in flight
+    | 'failed'        // Last attempt failed, see analysisError
+    | 'done';         // AI fields populated
+
+// Imported cards remember where they came from
+export type ImportSourceKind = 'chrome-bookmarks' | 'netscape-html' | 'pocket-csv' | 'raindrop-csv';
+
+export interface ImportSource {
+    kind: ImportSourceKind;
+    bookmarkId?: string;        // chrome.bookmarks node, removable once decided
+    importedAt: number;
+}
+
+// Image stored outside the cards array (see attachments.ts)
+export interface AttachmentRef {
+    id: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    bytes: number;
+}
+
+// A passage captured from a page, with a link that scrolls back to it
+export interface SourceLocation {
+    url: string;
+    title?: string;
+    excerpt: string;            // The selected text
+    context?: string;           // Surrounding paragraph
+    fragmentUrl: string;        // url#:~:text=... (see text-fragment.ts)
+}
+
+// Material dropped onto an existing card: informs the decision, does not open a new loop
+export interface ExtraContext {
+    kind: 'url' | 'text' | 'file' | 'image';
+    content: string;            // URL, text, or file name
+    title?: string;
+    excerpt?: string;           // Opening text of dropped documents
+    attachment?: AttachmentRef; // Dropped images
+    addedAt: number;
+}
 
 export interface Card {
     id: string;
@@ -32,17 +81,30 @@ export interface Card {
     sourceContent: string;
     platformName?: string;
     extractedTitle?: string;
+    canonicalUrl?: string;      // Dedupe identity for url cards (see url-canonical.ts)
+    importSource?: ImportSource;
+    sourceLocation?: SourceLocation; // Selection captures: where the passage lives
+    attachment?: AttachmentRef;  // Screenshot captures
+    estimatedReadMinutes?: number; // From the extracted body text
+    extraContext?: ExtraContext[];
 
     // Timestamps
-    createdAt: number;
+    createdAt: number;          // Original save date for imported cards
+    recaptureCount?: number;    // Times the same resource was captured again
+    recapturedAt?: number[];    // Most recent recapture timestamps
     confrontedAt?: number;      // Last time confrontation started
     decidedAt?: number;         // When decision was made
+    closedAt?: number;          // Loop closed: discarded, or execute stopped
 
     // AI Analysis
     aiSummary?: string;
     aiTitle?: string;
     aiTags?: string[];
     category?: Category;
+    aiModel?: string;           // Model that produced the analysis, after fallback
+    analysisStatus?: AnalysisStatus;
+    analysisError?: string;
+    analysisAttempts?: number;
 
     // Decision tracking
     decision?: Decision;
@@ -50,8 +112,8 @@ export interface Card {
 
     // Execute Mode fields
     executeStartedAt?: number;  // When timer was started
-    executeDuration: number;    // Minutes (default 15)
-    startAction?: string;       // First concrete step
+    executeDuration: number;    // Minutes (default 15, shorter for short reads)
+    startAction?: string;       // First concrete step (proposed by analysis until decided)
     stopRule?: string;          // When can honestly stop
     allowedDomains?: string[];  // Whitelist for Focus Mode
 
@@ -59,6 +121,25 @@ export interface Card {
     executeResult?: 'stopped' | 'aborted'; // stopped = closed, aborted = shadowed
 }
 
+// What a capture supplies; the store fills in id, state and defaults
+export type CardDraft = Pick<Card, 'sourceType' | 'sourceContent'> & Partial<Pick<Card,
+    | 'platformName'
+    | 'extractedTitle'
+    | 'canonicalUrl'
+    | 'estimatedReadMinutes'
+    | 'aiTitle'
+    | 'aiSummary'
+    | 'aiTags'
+    | 'category'
+    | 'aiModel'
+    | 'startAction'
+    | 'analysisStatus'
+    | 'importSource'
+    | 'sourceLocation'
+    | 'attachment'
+    | 'createdAt'
+>>;
+
 export interface SystemMetrics {
     state: SystemState;
     uncommittedCount: number;
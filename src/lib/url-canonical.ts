@@ -0,0 +1,102 @@
+// URL canonicalization: one identity per resource, regardless of how it was reached
+
+// Query params that only identify the click, never the resource
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+    'mc_cid', 'mc_eid', 'igshid', 'igsh', '_hsenc', '_hsmi', 'mkt_tok', 'oly_enc_id', 'oly_anon_id',
+    'vero_id', 'rb_clickid', 'ref_src', 'ref_url', 'share_id', 'ncid',
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+const isTrackingParam = (key: string) =>
+    TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com']);
+const TWITTER_HOSTS = new Set(['twitter.com', 'mobile.twitter.com', 'x.com', 'mobile.x.com']);
+const REDDIT_HOSTS = new Set(['reddit.com', 'old.reddit.com', 'new.reddit.com', 'np.reddit.com', 'm.reddit.com']);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+function youtubeVideoId(url: URL, host: string): string | null {
+    if (host === 'youtu.be') {
+        const id = url.pathname.split('/')[1];
+        return YOUTUBE_ID.test(id) ? id : null;
+    }
+    if (!YOUTUBE_HOSTS.has(host)) return null;
+
+    const v = url.searchParams.get('v');
+    if (url.pathname === '/watch' && v && YOUTUBE_ID.test(v)) return v;
+
+    // /shorts/ID, /embed/ID, /live/ID, /v/ID
+    const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([\w-]{11})/);
+    return match ? match[1] : null;
+}
+
+// Known hosts: collapse mirror domains and ID forms into one URL
+function canonicalForKnownHost(url: URL, host: string): string | null {
+    const videoId = youtubeVideoId(url, host);
+    if (videoId) return `https://www.youtube.com/watch?v=${videoId}`;
+
+    if (TWITTER_HOSTS.has(host)) {
+        const status = url.pathname.match(/^\/([^/]+)\/status(?:es)?\/(\d+)/);
+        if (status) return `https://x.com/${status[1].toLowerCase()}/status/${status[2]}`;
+        return `https://x.com${url.pathname.replace(/\/$/, '').toLowerCase()}`;
+    }
+
+    if (REDDIT_HOSTS.has(host)) {
+        // /r/sub/comments/ID/slug → /r/sub/comments/ID
+        const post = url.pathname.match(/^\/r\/([^/]+)\/comments\/([^/]+)/);
+        if (post) return `https://www.reddit.com/r/${post[1].toLowerCase()}/comments/${post[2]}`;
+    }
+
+    if (host.startsWith('amazon.') || host.includes('.amazon.')) {
+        const asin = url.pathname.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i);
+        if (asin) return `https://${host.replace(/^(www\.|smile\.)/, '')}/dp/${asin[1].toUpperCase()}`;
+    }
+
+    if (host === 'arxiv.org') {
+        // abs, pdf and versioned links all point at one paper
+        const paper = url.pathname.match(/^\/(?:abs|pdf)\/([\w.-]+?\d)(?:v\d+)?(?:\.pdf)?$/);
+        if (paper) return `https://arxiv.org/abs/${paper[1]}`;
+    }
+
+    return null;
+}
+
+function parseWebUrl(raw: string): URL | null {
+    try {
+        const url = new URL(raw.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Canonical identity of a web URL. `canonicalHint` is the page's own
+ * `<link rel=canonical>`; it wins unless it collapses a deep link to a homepage.
+ * Non-web input is returned trimmed and unchanged.
+ */
+export function canonicalizeUrl(raw: string, canonicalHint?: string): string {
+    const original = parseWebUrl(raw);
+    if (!original) return raw.trim();
+
+    const hinted = canonicalHint ? parseWebUrl(canonicalHint) : null;
+    const url = hinted && !(hinted.pathname === '/' && original.pathname !== '/') ? hinted : original;
+
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const known = canonicalForKnownHost(url, host);
+    if (known) return known;
+
+    const params = [...url.searchParams.entries()]
+        .filter(([key]) => !isTrackingParam(key.toLowerCase()))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+    // Hash routers (#/ and #!) address content; plain fragments only scroll
+    const hash = /^#!?\//.test(url.hash) ? url.hash : '';
+    const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : (hash ? '/' : '');
+    const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+
+    return `https://${host}${port}${path}${query}${hash}`;
+}
@@ -0,0 +1,10 @@
+/// <reference types="chrome"/>
+// Offscreen document: reads PDFs for the service worker, which cannot start the Worker pdf.js needs
+import { readPdfLink } from '../lib/pdf-extractor';
+import type { RuntimeMessage } from '../lib/messages';
+
+chrome.runtime.onMessage.addListener((message: RuntimeMessage, _sender, sendResponse) => {
+    if (message.type !== 'cutoff:read-pdf') return;
+    readPdfLink(message.url).then(sendResponse);
+    return true; // Async response
+});
@@ -2,12 +2,16 @@
 import { useState, useEffect } from 'react';
 import styles from './Popup.module.css';
 import { useCardStore } from '../store/card-store';
+import { getGateSettings } from '../lib/intake-gate';
 import { ArrowRight, FileText, Link } from 'lucide-react';
 import clsx from 'clsx';
 
 export default function Popup() {
     const [input, setInput] = useState('');
     const [status, setStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+    const [recaptureCount, setRecaptureCount] = useState(0);
+    const [closuresRequired, setClosuresRequired] = useState<number | null>(null);
+    const loadCards = useCardStore(state => state.loadCards);
     const addCard = useCardStore(state => state.addCard);
 
     // Auto-focus and paste check
@@ -33,7 +37,15 @@ export default function Popup() {
         const isUrl = input.startsWith('http');
         const type = isUrl ? 'url' : 'text';
 
-        await addCard(input, type, isUrl ? new URL(input).hostname : undefined);
+        // The gate and the recapture check both need the saved cards
+        await loadCards();
+        const result = await addCard({
+            sourceContent: input,
+            sourceType: type,
+            platformName: isUrl ? new URL(input).hostname : undefined,
+        });
+        if (result.status === 'merged') setRecaptureCount(result.card.recaptureCount || 1);
+        if (result.status === 'held') setClosuresRequired((await getGateSettings()).closuresRequired);
 
         setStatus('saved');
         setTimeout(() => {
@@ -43,7 +55,27 @@ export default function Popup() {
 
     return (
         <div className={styles.container}>
-            {status === 'saved' ? (
+            {status === 'saved' && closuresRequired !== null ? (
+                <div className={styles.successMessage}>
+                    <div className={styles.iconWrapper}>
+                        <div className={styles.glitchBox}></div>
+                    </div>
+                    <h2>HELD.</h2>
+                    <p>Intake is closed. The system is overloaded.</p>
+                    <p className={styles.subtext}>
+                        Close {closuresRequired} loop{closuresRequired === 1 ? '' : 's'} to admit it.
+                    </p>
+                </div>
+            ) : status === 'saved' && recaptureCount > 0 ? (
+                <div className={styles.successMessage}>
+                    <div className={styles.iconWrapper}>
+                        <div className={styles.glitchBox}></div>
+                    </div>
+                    <h2>ALREADY SAVED.</h2>
+                    <p>Captured {recaptureCount + 1} times.</p>
+                    <p className={styles.subtext}>Saving it again changed nothing.</p>
+                </div>
+            ) : status === 'saved' ? (
                 <div className={styles.successMessage}>
                     <div className={styles.iconWrapper}>
                         <div className={styles.glitchBox}></div>
@@ -1,23 +1,63 @@
 import { storage } from '../lib/storage';
 import type { ExtractionPayload } from '../lib/content-extractor';
+import type { AIProvider, AISettings } from './providers/types';
+import { clearModelCache, createGeminiProvider } from './providers/gemini';
+import { createOpenAICompatibleProvider, normalizeBaseUrl } from './providers/openai-compatible';
+import { mockProvider } from './providers/mock';
+import { clampCutMinutes, type ActivationCut, type ActivationCutInput } from '../lib/activation-cut';
+import { isBrandCompliant, type RealityFacts } from '../lib/reality-check';
+import { fallbackProposal, TRIAGE_DECISIONS, type TriageDecision, type TriageInput, type TriageProposal } from '../lib/triage';
+import type { Category } from '../lib/types';
+import { AIOutputError, ANALYSIS_RESPONSE_SCHEMA, validateAnalysis, type AnalysisValidation } from './analysis-schema';
+import { analysisCacheKey, cacheAnalysis, readCachedAnalysis } from './analysis-cache';
 
 export interface AIAnalysisResult {
     title: string;
     summary: string;
     tags?: string[];
-    category?: string;
+    category?: Category;
+    startAction?: string;   // Concrete entry point, e.g. a transcript segment to watch
+    model?: string;         // The model that produced it
 }
 
-interface GeminiModel {
-    name: string;
-    supportedGenerationMethods: string[];
+export interface AnalyzeOptions {
+    force?: boolean;        // Skip the cache; the fresh result replaces the cached one
 }
 
 const API_STORAGE_KEY = 'cutoff_gemini_api_key';
+export const AI_SETTINGS_KEY = 'cutoff_ai_settings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+    provider: 'gemini',
+    gemini: { model: '' },
+    openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+};
+
+// Bump when the analysis prompt or schema changes: results of the old prompt are no longer reused
+const ANALYSIS_PROMPT_VERSION = 2;
+
+// The configured model, not the one that answered: a fallback answer is still cached for the choice
+function modelVariant(settings: AISettings): string {
+    switch (settings.provider) {
+        case 'gemini':
+            return `gemini:${settings.gemini.model || 'auto'}`;
+        case 'openai':
+            return `openai:${normalizeBaseUrl(settings.openai.baseUrl)}:${settings.openai.model}`;
+        case 'mock':
+            return 'mock';
+    }
+}
+
+// Models wrap JSON in fences, local ones often in prose too; keep the outermost braces
+function extractJson(text: string): string {
+    const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const start = cleanText.indexOf('{');
+    const end = cleanText.lastIndexOf('}');
+    return start !== -1 && end > start ? cleanText.slice(start, end + 1) : cleanText;
+}
 
 export class AIService {
     private static instance: AIService;
-    private apiKey: string | null = null;
 
     private constructor() { }
 
@@ -29,46 +69,82 @@ export class AIService {
     }
 
     public async isAvailable(): Promise<boolean> {
-        const key = await this.getApiKey();
-        return !!key;
+        const { provider } = await this.getSettings();
+        return provider !== 'gemini' || !!(await this.getApiKey());
     }
 
-    public async getApiKey(): Promise<string | null> {
-        if (this.apiKey) return this.apiKey;
+    // Read on every call: the side panel and the service worker share one setting
+    public async getSettings(): Promise<AISettings> {
+        const stored = await storage.get<Partial<AISettings>>(AI_SETTINGS_KEY);
+        return {
+            ...DEFAULT_AI_SETTINGS,
+            ...stored,
+            gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...stored?.gemini },
+            openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored?.openai },
+        };
+    }
 
-        const storedKey = await storage.get<string>(API_STORAGE_KEY);
-        if (storedKey) {
-            this.apiKey = storedKey;
-            return storedKey;
-        }
+    public async setSettings(settings: AISettings): Promise<void> {
+        await storage.set(AI_SETTINGS_KEY, settings);
+    }
 
-        const envKey = import.meta.env.VITE_GEMINI_API_KEY;
-        if (envKey) {
-            this.apiKey = envKey;
-            return envKey;
+    private async getProvider(settings?: AISettings): Promise<AIProvider> {
+        settings = settings || await this.getSettings();
+        switch (settings.provider) {
+            case 'openai':
+                return createOpenAICompatibleProvider(settings.openai);
+            case 'mock':
+                return mockProvider;
+            case 'gemini': {
+                const key = await this.getApiKey();
+                if (!key) throw new Error('API_KEY_MISSING');
+                return createGeminiProvider(key, settings.gemini);
+            }
         }
+    }
 
-        return null;
+    // Not cached: the key is saved from the side panel, and the service worker's instance must see it at once
+    public async getApiKey(): Promise<string | null> {
+        const storedKey = await storage.get<string>(API_STORAGE_KEY);
+        return storedKey || import.meta.env.VITE_GEMINI_API_KEY || null;
     }
 
     public async setApiKey(key: string): Promise<void> {
-        this.apiKey = key;
+        if (key !== await storage.get<string>(API_STORAGE_KEY)) await clearModelCache();
         await storage.set(API_STORAGE_KEY, key);
     }
 
-    public async analyzeContent(payload: ExtractionPayload): Promise<AIAnalysisResult> {
-        const key = await this.getApiKey();
-        if (!key) throw new Error('API_KEY_MISSING');
+    public async analyzeContent(payload: ExtractionPayload, options: AnalyzeOptions = {}): Promise<AIAnalysisResult> {
+        const settings = await this.getSettings();
+        const cacheKey = await analysisCacheKey(payload, `${ANALYSIS_PROMPT_VERSION}|${modelVariant(settings)}`);
+        if (!options.force) {
+            const cached = await readCachedAnalysis(cacheKey);
+            if (cached) return cached;
+        }
+
+        const result = await this.generateAnalysis(await this.getProvider(settings), payload);
+        await cacheAnalysis(cacheKey, result);
+        return result;
+    }
+
+    private async generateAnalysis(provider: AIProvider, payload: ExtractionPayload): Promise<AIAnalysisResult> {
+
+        // Transcript travels outside metadata so it is not cut by the rawText budget
+        const transcript = payload.platform === 'youtube' ? payload.metadata.transcript : undefined;
 
         // AI Input Contract
         const inputContext = JSON.stringify({
             platform: payload.platform,
             title: payload.title,
             author: payload.metadata?.author,
+            metadata: transcript ? { ...payload.metadata, transcript: undefined } : payload.metadata,
             rawText: payload.rawText.slice(0, 8500),
             url: payload.url,
             hasFile: !!payload.fileData
         });
+        const transcriptSection = transcript
+            ? `Transcript (${transcript.language}${transcript.generated ? ', auto-generated' : ''}):\n${transcript.text}`
+            : '';
 
         const prompt = `
         Role: Context Extraction Engine.
@@ -76,7 +152,7 @@ export class AIService {
 
         Input Data:
         ${inputContext}
-
+        ${transcriptSection}
         CRITICAL RULES:
         1. HALLUCINATION CHECK: Use ONLY the provided "rawText", "title", and "author". Do NOT guess based on the URL.
         2. If the input data is generic (e.g. "YouTube", "Twitter"), output "Unknown Content" for the title.
@@ -88,130 +164,232 @@ export class AIService {
            - Style: Dry, factual, archival.
         5. "tags": 3-5 keywords for indexing.
         6. "category": Choose ONE strictly from: "Learning", "Tool", "Idea", "Content", "Reference", "Opportunity".
+        7. "startAction": ONLY if a Transcript is provided. Pick the single densest segment (max 15 minutes) using its timestamps.
+           - Format: "Watch 12:40–27:00: <what that segment covers>".
+           - Otherwise output null.
 
         Output JSON:
         {
             "title": "...",
             "summary": "...", 
             "tags": ["..."],
-            "category": "..."
+            "category": "...",
+            "startAction": "..."
         }
         `;
 
-        return await this.callGemini(prompt, key, payload.fileData);
+        const request = { task: 'analysis' as const, prompt, payload, responseSchema: ANALYSIS_RESPONSE_SCHEMA };
+        const output = await provider.generate(request);
+        const first = this.validateOutput(output.text);
+        if (first.ok) return { ...first.value, model: output.model };
+
+        // One repair round: the model sees its own answer and what was wrong with it
+        const repaired = await provider.generate({
+            ...request,
+            prompt: `${prompt}
+        REPAIR: Your previous output was rejected.
+        Problems:
+        ${first.issues.map(issue => `- ${issue}`).join('\n        ')}
+        Previous output:
+        ${output.text.slice(0, 2000)}
+        Return the corrected JSON object only.
+        `
+        });
+        const second = this.validateOutput(repaired.text);
+        if (second.ok) return { ...second.value, model: repaired.model };
+        throw new AIOutputError(second.issues, repaired.text);
     }
 
     // Legacy method for text-only
-    public async analyzeText(text: string): Promise<AIAnalysisResult> {
+    public async analyzeText(text: string, options?: AnalyzeOptions): Promise<AIAnalysisResult> {
         return this.analyzeContent({
             url: '',
             platform: 'text',
             title: 'Note',
             rawText: text,
             metadata: {}
-        });
+        }, options);
     }
 
-    public async analyzeUrl(url: string, content?: string): Promise<AIAnalysisResult> {
+    public async analyzeUrl(url: string, content?: string, options?: AnalyzeOptions): Promise<AIAnalysisResult> {
         return this.analyzeContent({
             url,
             platform: 'web',
             title: 'Link',
             rawText: content || `URL: ${url}`,
             metadata: {}
-        });
+        }, options);
     }
 
-    private async callGemini(prompt: string, key: string, fileData?: { mimeType: string, data: string }): Promise<AIAnalysisResult> {
-        const modelName = await this.getWorkingModel(key);
-        return await this.tryModel(modelName, prompt, key, fileData);
-    }
+    // Run during confrontation: one step, a stop condition and a duration the user can still edit
+    public async generateActivationCut(input: ActivationCutInput): Promise<ActivationCut> {
+        const provider = await this.getProvider();
 
-    private async getWorkingModel(key: string): Promise<string> {
-        try {
-            const listUrl = `https://generativelanguage.googleapis.com/v1beta/models?key=${key}`;
-            const response = await fetch(listUrl);
+        const inputContext = JSON.stringify({
+            title: input.title,
+            summary: input.summary,
+            source: input.source,
+            sourceType: input.sourceType,
+            category: input.category,
+            proposedStart: input.proposedStart,
+            readMinutes: input.readMinutes,
+            context: input.context.length ? input.context : undefined
+        });
 
-            if (!response.ok) {
-                return 'gemini-1.5-flash';
-            }
+        const prompt = `
+        Role: Activation Cut Engine.
+        Task: Strip this open loop to ONE first step that fits in 15 minutes or less.
 
-            const data = await response.json();
-            const models = (data.models || []) as GeminiModel[];
+        Input Data:
+        ${inputContext}
 
-            // Find the first model that supports content generation and looks like a stable gemini model
-            // Priority: 1.5-flash -> 1.5-pro -> 1.0-pro -> any gemini
-            const candidates = models.filter((m) =>
-                m.supportedGenerationMethods?.includes('generateContent') &&
-                m.name.includes('models/gemini')
-            );
+        CRITICAL RULES:
+        1. "startAction": ONE physical action, verb first, naming the exact thing to open or produce (max 15 words).
+           - Good: "Open the repo README and run the install command".
+           - Bad: "Learn about X", "Explore", "Think about".
+           - If "proposedStart" is given, keep its timestamps or scope.
+        2. "stopRule": An observable condition that ends the session honestly (max 15 words).
+           - Good: "Stop when the example runs once locally".
+           - Bad: "When done", "When it feels complete".
+        3. "durationMinutes": Integer from 5 to 15. Use "readMinutes" when the step is reading it.
+        4. No motivation, no advice, no alternatives. Dry and declarative.
 
-            if (candidates.length === 0) return 'gemini-1.5-flash';
+        Output JSON:
+        {
+            "startAction": "...",
+            "stopRule": "...",
+            "durationMinutes": 15
+        }
+        `;
 
-            const flash15 = candidates.find((m) => m.name.includes('1.5-flash'));
-            const pro15 = candidates.find((m) => m.name.includes('1.5-pro'));
-            const pro10 = candidates.find((m) => m.name.includes('pro'));
+        const { text } = await provider.generate({
+            task: 'activation-cut',
+            prompt,
+            input
+        });
+        const parsed = JSON.parse(extractJson(text)) as Partial<ActivationCut>;
+        if (typeof parsed.startAction !== 'string' || typeof parsed.stopRule !== 'string') {
+            throw new Error('Malformed activation cut');
+        }
+        return {
+            startAction: parsed.startAction.trim(),
+            stopRule: parsed.stopRule.trim(),
+            durationMinutes: clampCutMinutes(Number(parsed.durationMinutes)),
+        };
+    }
 
-            const selected = flash15 || pro15 || pro10 || candidates[0];
-            const cleanName = selected.name.replace('models/', '');
+    // Off-tone statements are rejected here; callers fall back to the static statement
+    public async generateRealityStatement(facts: RealityFacts): Promise<string> {
+        const provider = await this.getProvider();
+        const inputContext = JSON.stringify(facts);
 
-            return cleanName;
+        const prompt = `
+        Role: Reality Check Engine.
+        Task: State the unpleasant truth about this saved item in 1-2 short sentences (max 25 words).
 
-        } catch {
-            return 'gemini-1.5-flash';
-        }
-    }
+        Facts:
+        ${inputContext}
 
-    private async tryModel(model: string, prompt: string, key: string, fileData?: { mimeType: string, data: string }): Promise<AIAnalysisResult> {
-        const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`;
+        CRITICAL RULES:
+        1. Use ONLY the facts. Weigh them: repeated deferral, similar items already discarded, recaptures, age.
+        2. Declarative statements only. No questions. No advice. No empathy. No encouragement.
+        3. Forbidden words: "maybe", "later", "easy", "help", "should", "could", "try", "consider".
+        4. Cold, neutral, factual. Example: "Saved 3 times. Opened twice. Saving it again was not progress."
 
-        const parts: { text?: string; inlineData?: { mimeType: string; data: string } }[] = [{ text: prompt }];
+        Output JSON:
+        {
+            "statement": "..."
+        }
+        `;
 
-        if (fileData) {
-            parts.push({
-                inlineData: {
-                    mimeType: fileData.mimeType,
-                    data: fileData.data
-                }
-            });
+        const { text } = await provider.generate({
+            task: 'reality-check',
+            prompt,
+            input: facts
+        });
+        const statement = (JSON.parse(extractJson(text)) as { statement?: unknown }).statement;
+        if (typeof statement !== 'string' || !isBrandCompliant(statement)) {
+            throw new Error('Reality statement off-tone');
         }
+        return statement.trim();
+    }
 
-        const payload = {
-            contents: [{
-                parts: parts
-            }]
-        };
+    // Proposals for a batch of cards; skipped ids and off-tone rationales get the rule-based proposal
+    public async generateTriage(inputs: TriageInput[]): Promise<Map<string, TriageProposal>> {
+        const provider = await this.getProvider();
+        const inputContext = JSON.stringify(inputs.map(input => ({
+            id: input.id,
+            title: input.title,
+            summary: input.summary,
+            category: input.category,
+            ageDays: input.ageDays,
+            confrontations: input.confrontations,
+            shadowed: input.shadowed,
+            recaptures: input.recaptures,
+            similarDiscarded: input.similarDiscarded,
+            similarOpen: input.similarOpen,
+            firstStep: input.firstStep,
+            readMinutes: input.readMinutes
+        })));
 
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload)
-        });
+        const prompt = `
+        Role: Triage Engine.
+        Task: For EACH open loop, propose ONE decision.
+           - "execute": worth a 15-minute session now.
+           - "shadow": kept open, not now.
+           - "discard": closed for good.
+
+        Loops:
+        ${inputContext}
+
+        CRITICAL RULES:
+        1. Decide from the facts only: age, repeated deferral, recaptures, similar items already discarded, a concrete first step.
+        2. Few loops in a backlog deserve execution. Loops deferred repeatedly or untouched for weeks are discarded.
+        3. "rationale": ONE declarative sentence, max 15 words. No questions. No advice. No empathy.
+        4. Forbidden words: "maybe", "later", "easy", "help", "should", "could", "try", "consider".
+        5. Return every id exactly once.
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`API Error ${response.status} (${model}): ${errorText.slice(0, 150)}`);
+        Output JSON:
+        {
+            "proposals": [
+                { "id": "...", "decision": "execute", "rationale": "..." }
+            ]
         }
+        `;
 
-        const data = await response.json();
-        const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        const { text } = await provider.generate({
+            task: 'triage',
+            prompt,
+            input: inputs
+        });
+        const parsed = JSON.parse(extractJson(text)) as { proposals?: { id?: unknown; decision?: unknown; rationale?: unknown }[] };
+
+        const proposals = new Map<string, TriageProposal>();
+        for (const item of Array.isArray(parsed.proposals) ? parsed.proposals : []) {
+            const input = inputs.find(i => i.id === item.id);
+            if (!input || !TRIAGE_DECISIONS.includes(item.decision as TriageDecision)) continue;
+            if (typeof item.rationale !== 'string' || !isBrandCompliant(item.rationale)) continue;
+            proposals.set(input.id, { decision: item.decision as TriageDecision, rationale: item.rationale.trim() });
+        }
+        inputs.filter(input => !proposals.has(input.id))
+            .forEach(input => proposals.set(input.id, fallbackProposal(input)));
+        return proposals;
+    }
 
-        if (!rawText) throw new Error('No response content from AI');
+    public async getEmbeddingModel(): Promise<string> {
+        return (await this.getProvider()).embeddingModel;
+    }
 
-        return this.parseResponse(rawText);
+    public async embedTexts(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        return (await this.getProvider()).embed(texts);
     }
 
-    private parseResponse(text: string): AIAnalysisResult {
+    private validateOutput(text: string): AnalysisValidation {
         try {
-            const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-            return JSON.parse(cleanText) as AIAnalysisResult;
-        } catch (e) {
-            console.warn('Failed to parse JSON from AI, fallback to raw text', e);
-            return {
-                title: 'AI Analysis Result',
-                summary: text.slice(0, 200),
-                tags: []
-            };
+            return validateAnalysis(JSON.parse(extractJson(text)));
+        } catch {
+            return { ok: false, issues: ['output is not valid JSON'] };
         }
     }
 }
@@ -0,0 +1,63 @@
+// Analysis cache: the same content, prompt and model never pays for a second call
+import { storage } from '../lib/storage';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import type { ExtractionPayload } from '../lib/content-extractor';
+import type { AIAnalysisResult } from './ai-service';
+
+const CACHE_KEY = 'cutoff_analysis_cache';
+const MAX_ENTRIES = 300;
+
+interface CacheEntry {
+    result: AIAnalysisResult;
+    storedAt: number;
+    usedAt: number;                 // Least recently used entries are evicted first
+}
+
+type AnalysisCache = Record<string, CacheEntry>;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Whitespace and tracking parameters do not change what the model sees
+function normalize(payload: ExtractionPayload): string {
+    return JSON.stringify({
+        url: payload.url ? canonicalizeUrl(payload.url) : '',
+        platform: payload.platform,
+        title: collapse(payload.title),
+        rawText: collapse(payload.rawText),
+        metadata: payload.metadata,
+        file: payload.fileData ? `${payload.fileData.mimeType}:${payload.fileData.data}` : undefined,
+    });
+}
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** `variant` carries the prompt version and model: changing either misses the cache. */
+export function analysisCacheKey(payload: ExtractionPayload, variant: string): Promise<string> {
+    return sha256(`${variant}\n${normalize(payload)}`);
+}
+
+export async function readCachedAnalysis(key: string): Promise<AIAnalysisResult | null> {
+    const cache = await storage.get<AnalysisCache>(CACHE_KEY);
+    const entry = cache?.[key];
+    if (!cache || !entry) return null;
+
+    await storage.set<AnalysisCache>(CACHE_KEY, { ...cache, [key]: { ...entry, usedAt: Date.now() } });
+    return entry.result;
+}
+
+// Side panel and worker both write; a lost entry only costs one more call
+export async function cacheAnalysis(key: string, result: AIAnalysisResult): Promise<void> {
+    const now = Date.now();
+    const cache = { ...await storage.get<AnalysisCache>(CACHE_KEY), [key]: { result, storedAt: now, usedAt: now } };
+
+    const keys = Object.keys(cache);
+    if (keys.length > MAX_ENTRIES) {
+        keys.sort((a, b) => cache[a].usedAt - cache[b].usedAt)
+            .slice(0, keys.length - MAX_ENTRIES)
+            .forEach(stale => delete cache[stale]);
+    }
+    await storage.set<AnalysisCache>(CACHE_KEY, cache);
+}
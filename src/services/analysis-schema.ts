@@ -0,0 +1,78 @@
+// Analysis output contract: the schema sent to the model and the validator applied to its answer
+import { CATEGORIES, toCategory } from '../lib/types';
+import type { AIAnalysisResult } from './ai-service';
+
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_TITLE_WORDS = 12;      // The prompt asks for 8; a little slack before rejecting
+export const MAX_TAGS = 5;
+const MAX_SUMMARY_LENGTH = 600;
+
+// Gemini responseSchema (OpenAPI subset)
+export const ANALYSIS_RESPONSE_SCHEMA = {
+    type: 'OBJECT',
+    properties: {
+        title: { type: 'STRING' },
+        summary: { type: 'STRING' },
+        tags: { type: 'ARRAY', items: { type: 'STRING' } },
+        category: { type: 'STRING', enum: CATEGORIES },
+        startAction: { type: 'STRING', nullable: true },
+    },
+    required: ['title', 'summary', 'tags', 'category'],
+    propertyOrdering: ['title', 'summary', 'tags', 'category', 'startAction'],
+};
+
+// The model answered, but not with something a card can hold
+export class AIOutputError extends Error {
+    readonly issues: string[];
+    readonly raw: string;
+
+    constructor(issues: string[], raw: string) {
+        super(`AI output rejected: ${issues.join('; ')}`);
+        this.name = 'AIOutputError';
+        this.issues = issues;
+        this.raw = raw;
+    }
+}
+
+export type AnalysisValidation =
+    | { ok: true; value: AIAnalysisResult }
+    | { ok: false; issues: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Normalises what is harmless (case, whitespace, duplicate tags); rejects the rest
+export function validateAnalysis(data: unknown): AnalysisValidation {
+    if (!isRecord(data)) return { ok: false, issues: ['output is not a JSON object'] };
+    const issues: string[] = [];
+
+    const title = typeof data.title === 'string' ? data.title.replace(/\s+/g, ' ').trim() : '';
+    if (!title) issues.push('"title" is missing');
+    else if (title.length > MAX_TITLE_LENGTH || title.split(' ').length > MAX_TITLE_WORDS) {
+        issues.push(`"title" exceeds ${MAX_TITLE_WORDS} words / ${MAX_TITLE_LENGTH} characters`);
+    }
+
+    const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+    if (!summary) issues.push('"summary" is missing');
+    else if (summary.length > MAX_SUMMARY_LENGTH) issues.push(`"summary" exceeds ${MAX_SUMMARY_LENGTH} characters`);
+
+    const category = toCategory(data.category);
+    if (!category) issues.push(`"category" must be one of ${CATEGORIES.join(', ')} (got ${JSON.stringify(data.category ?? null)})`);
+
+    let tags: string[] = [];
+    if (data.tags !== undefined && !Array.isArray(data.tags)) {
+        issues.push('"tags" must be an array of strings');
+    } else {
+        const raw = (data.tags as unknown[] | undefined) || [];
+        tags = [...new Set(raw.filter((t): t is string => typeof t === 'string').map(t => t.trim().toLowerCase()).filter(Boolean))];
+        if (tags.length > MAX_TAGS) issues.push(`"tags" has ${tags.length} entries, max ${MAX_TAGS}`);
+    }
+
+    const startAction = typeof data.startAction === 'string' ? data.startAction.trim() : undefined;
+    if (data.startAction !== undefined && data.startAction !== null && typeof data.startAction !== 'string') {
+        issues.push('"startAction" must be a string or null');
+    }
+
+    if (issues.length > 0) return { ok: false, issues };
+    return { ok: true, value: { title, summary, tags, category, startAction: startAction || undefined } };
+}
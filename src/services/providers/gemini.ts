@@ -0,0 +1,164 @@
+import { storage } from '../../lib/storage';
+import type { AIProvider, GeminiConfig } from './types';
+
+interface GeminiModel {
+    name: string;
+    supportedGenerationMethods: string[];
+}
+
+interface ModelListCache {
+    models: string[];
+    fetchedAt: number;
+}
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+const MODEL_CACHE_KEY = 'cutoff_gemini_models';
+const MODEL_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// Automatic order: fast and cheap first, the larger model last
+export const PREFERRED_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+const MAX_CHAIN = 4;
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIMENSIONS = 768;
+const EMBED_BATCH = 100;            // batchEmbedContents request limit
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 8000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Status 0: the request never reached the API
+const isFallbackStatus = (status: number) => status === 0 || status === 404 || status === 429 || status >= 500;
+
+class ModelCallError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+async function fetchModels(key: string): Promise<string[] | null> {
+    try {
+        const response = await fetch(`${API_BASE}/models?key=${key}&pageSize=1000`);
+        if (!response.ok) return null;
+
+        const data = await response.json();
+        return ((data.models || []) as GeminiModel[])
+            .filter(m => m.supportedGenerationMethods?.includes('generateContent') && m.name.startsWith('models/gemini'))
+            .map(m => m.name.replace('models/', ''));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Models the key can generate with. Cached for a day: listing used to run before every call.
+ * Null when the list cannot be fetched; failures are not cached.
+ */
+export async function listGeminiModels(key: string, refresh = false): Promise<string[] | null> {
+    const cached = await storage.get<ModelListCache>(MODEL_CACHE_KEY);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < MODEL_CACHE_TTL) return cached.models;
+
+    const models = await fetchModels(key);
+    if (models) await storage.set<ModelListCache>(MODEL_CACHE_KEY, { models, fetchedAt: Date.now() });
+    return models;
+}
+
+// A different key may see different models
+export const clearModelCache = () => storage.remove(MODEL_CACHE_KEY);
+
+/** The chosen model first, then the preferred models this key has; all preferred models when the list is unknown. */
+export function modelChain(chosen: string, available: string[] | null): string[] {
+    const preferred = available ? PREFERRED_MODELS.filter(model => available.includes(model)) : PREFERRED_MODELS;
+    // A key with none of the preferred models still gets whatever it has
+    const rest = preferred.length > 0 ? preferred : (available || []).filter(model => model.includes('flash'));
+    return [...new Set([chosen, ...rest].filter(Boolean))].slice(0, MAX_CHAIN);
+}
+
+export function createGeminiProvider(key: string, config: GeminiConfig): AIProvider {
+    return {
+        id: 'gemini',
+        embeddingModel: EMBEDDING_MODEL,
+        async generate(request) {
+            const parts: { text?: string; inlineData?: { mimeType: string; data: string } }[] = [{ text: request.prompt }];
+            const fileData = request.task === 'analysis' ? request.payload.fileData : undefined;
+            if (fileData) {
+                parts.push({ inlineData: { mimeType: fileData.mimeType, data: fileData.data } });
+            }
+            const body = JSON.stringify({
+                contents: [{ parts }],
+                generationConfig: { responseMimeType: 'application/json', responseSchema: request.responseSchema }
+            });
+
+            const chain = modelChain(config.model, await listGeminiModels(key));
+            let lastError: ModelCallError | null = null;
+
+            for (const [attempt, model] of chain.entries()) {
+                try {
+                    return { text: await generateWith(model, key, body), model };
+                } catch (error) {
+                    if (!(error instanceof ModelCallError) || !isFallbackStatus(error.status)) throw error;
+                    lastError = error;
+
+                    // Retired model: the cached list is stale. Rate limits and outages get time before the next model.
+                    if (error.status === 404) await clearModelCache();
+                    else if (attempt < chain.length - 1) await sleep(Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt));
+                }
+            }
+            throw lastError || new Error('No Gemini model available');
+        },
+
+        async embed(texts) {
+            const vectors: number[][] = [];
+            for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+                const response = await fetch(`${API_BASE}/models/${EMBEDDING_MODEL}:batchEmbedContents?key=${key}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        requests: texts.slice(i, i + EMBED_BATCH).map(text => ({
+                            model: `models/${EMBEDDING_MODEL}`,
+                            content: { parts: [{ text }] },
+                            taskType: 'CLUSTERING',
+                            outputDimensionality: EMBEDDING_DIMENSIONS
+                        }))
+                    })
+                });
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+                    throw new Error(`API Error ${response.status} (${EMBEDDING_MODEL}): ${errorText.slice(0, 150)}`);
+                }
+                const data = await response.json();
+                vectors.push(...((data.embeddings || []) as { values: number[] }[]).map(e => e.values));
+            }
+            if (vectors.length !== texts.length) throw new Error('Embedding count mismatch');
+            return vectors;
+        }
+    };
+}
+
+async function generateWith(model: string, key: string, body: string): Promise<string> {
+    let response: Response;
+    try {
+        response = await fetch(`${API_BASE}/models/${model}:generateContent?key=${key}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body
+        });
+    } catch (error) {
+        throw new ModelCallError(0, `Network error (${model}): ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new ModelCallError(response.status, `API Error ${response.status} (${model}): ${errorText.slice(0, 150)}`);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new Error('No response content from AI');
+    return text;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider } from './mock';
+import { validateAnalysis } from '../analysis-schema';
+import type { ExtractionPayload } from '../../lib/content-extractor';
+
+const analyse = async ({ title, rawText }: { title: string; rawText: string }) => {
+    const payload: ExtractionPayload = { url: '', platform: 'text', title, rawText };
+    const { text } = await mockProvider.generate({ task: 'analysis', prompt: '', payload });
+    return validateAnalysis(JSON.parse(text));
+};
+
+describe('mock provider analysis', () => {
+    it('passes the schema for an ordinary page', async () => {
+        const result = await analyse({
+            title: 'A short page',
+            rawText: 'This article explains how the build pipeline caches dependencies between runs.',
+        });
+        expect(result.ok).toBe(true);
+    });
+
+    it('trims long page titles to the schema limits', async () => {
+        const result = await analyse({
+            title: 'How We Rebuilt Our Entire Deployment Pipeline From Scratch and What Everyone Else Can Learn From It',
+            rawText: 'A long write-up about deployment pipelines.',
+        });
+        expect(result).toMatchObject({ ok: true, value: { title: 'How We Rebuilt Our Entire Deployment Pipeline From' } });
+    });
+
+    it('trims a single overlong word', async () => {
+        const result = await analyse({ title: 'x'.repeat(200), rawText: 'Some text.' });
+        expect(result.ok).toBe(true);
+    });
+
+    it('titles generic captures from their text', async () => {
+        const result = await analyse({
+            title: 'Note',
+            rawText: 'Remember to compare the three hosting offers before the trial ends next week.',
+        });
+        expect(result).toMatchObject({ ok: true, value: { title: 'Remember to compare the three hosting offers before' } });
+    });
+});
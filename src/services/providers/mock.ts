@@ -0,0 +1,100 @@
+import type { AIProvider, GenerateRequest } from './types';
+import { CATEGORIES } from '../../lib/types';
+import { hashText } from '../../lib/hash';
+import { MAX_TITLE_LENGTH } from '../analysis-schema';
+import { clampCutMinutes, type ActivationCutInput } from '../../lib/activation-cut';
+import { staticRealityStatement } from '../../lib/reality-check';
+import { fallbackProposal } from '../../lib/triage';
+
+const CATEGORY_HINTS: [string, RegExp][] = [
+    ['Learning', /\b(course|tutorial|lecture|guide|learn|paper|arxiv)\b/i],
+    ['Tool', /\b(github|library|framework|cli|app|tool|api|sdk)\b/i],
+    ['Opportunity', /\b(job|hiring|grant|apply|deadline|position)\b/i],
+    ['Reference', /\b(docs|documentation|reference|spec|manual|stackoverflow)\b/i],
+    ['Content', /\b(video|youtube|podcast|episode|article|post)\b/i],
+];
+
+const STOPWORDS = new Set(
+    'the a an and or of to in on for with is are was be by this that it as at from your you we our not but have has'.split(' ')
+);
+
+function topWords(text: string, count: number): string[] {
+    const frequency = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || []) {
+        if (!STOPWORDS.has(word)) frequency.set(word, (frequency.get(word) || 0) + 1);
+    }
+    return [...frequency.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, count)
+        .map(([word]) => word);
+}
+
+// Page titles run long; the mock answers within the analysis schema like a model would
+const shortTitle = (text: string) => text.split(' ').slice(0, 8).join(' ').slice(0, MAX_TITLE_LENGTH).trim();
+
+const OPENERS: Record<string, string> = {
+    url: 'Open',
+    text: 'Reread',
+    file: 'Open the file',
+};
+
+function activationCut(input: ActivationCutInput): string {
+    const startAction = input.proposedStart ||
+        `${OPENERS[input.sourceType] || 'Open'} "${input.title.slice(0, 60)}" and write down one concrete next step`;
+    return JSON.stringify({
+        startAction,
+        stopRule: 'Stop when the next step is written down',
+        durationMinutes: clampCutMinutes(input.readMinutes ?? 15),
+    });
+}
+
+const MOCK_MODEL = 'offline-mock';
+const MOCK_DIMENSIONS = 256;
+
+// Hashed bag of words: shared vocabulary, not meaning, but stable enough to exercise clustering offline
+function embedText(text: string): number[] {
+    const vector = new Array<number>(MOCK_DIMENSIONS).fill(0);
+    for (const word of topWords(text, 40)) {
+        vector[hashText(word) % MOCK_DIMENSIONS] += 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map(value => value / norm);
+}
+
+function answer(request: GenerateRequest): string {
+    if (request.task === 'activation-cut') return activationCut(request.input);
+    if (request.task === 'reality-check') {
+        return JSON.stringify({ statement: staticRealityStatement(request.input) });
+    }
+    if (request.task === 'triage') {
+        return JSON.stringify({ proposals: request.input.map(input => ({ id: input.id, ...fallbackProposal(input) })) });
+    }
+
+    const { payload } = request;
+    const text = payload.rawText.replace(/\s+/g, ' ').trim();
+    const genericTitle = !payload.title || ['Note', 'Link', 'Selection'].includes(payload.title);
+    const source = genericTitle ? text : `${payload.title} ${text}`;
+    const title = shortTitle(genericTitle ? text : payload.title.replace(/\s+/g, ' ').trim()) || 'Unknown Content';
+    const firstSentence = text.match(/^.{20,240}?[.!?](\s|$)/)?.[0].trim() || text.slice(0, 160);
+
+    return JSON.stringify({
+        title,
+        summary: firstSentence || 'Content could not be analyzed.',
+        tags: topWords(source, 4),
+        category: CATEGORY_HINTS.find(([, pattern]) => pattern.test(source))?.[0] ||
+            CATEGORIES[hashText(source) % CATEGORIES.length],
+        startAction: null
+    });
+}
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    embeddingModel: MOCK_MODEL,
+    async generate(request) {
+        return { text: answer(request), model: MOCK_MODEL };
+    },
+
+    async embed(texts) {
+        return texts.map(embedText);
+    }
+};
@@ -0,0 +1,96 @@
+/// <reference types="chrome"/>
+import type { AIProvider, OpenAICompatibleConfig } from './types';
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+export const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Match pattern for the server's origin; ports are not part of match patterns
+export function originPattern(baseUrl: string): string | null {
+    try {
+        const url = new URL(normalizeBaseUrl(baseUrl));
+        return /^https?:$/.test(url.protocol) ? `${url.protocol}//${url.hostname}/*` : null;
+    } catch {
+        return null;
+    }
+}
+
+// Must run from a user gesture in an extension page: request() may show a prompt
+export async function ensureHostPermission(baseUrl: string): Promise<boolean> {
+    const origin = originPattern(baseUrl);
+    if (!origin) return false;
+    if (typeof chrome === 'undefined' || !chrome.permissions) return true;
+    if (await chrome.permissions.contains({ origins: [origin] })) return true;
+    try {
+        return await chrome.permissions.request({ origins: [origin] });
+    } catch {
+        return false;
+    }
+}
+
+// Any /v1/chat/completions server: OpenAI, llama.cpp, Ollama, LM Studio, vLLM
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+    const baseUrl = normalizeBaseUrl(config.baseUrl);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    const embeddingModel = config.embeddingModel || config.model;
+
+    return {
+        id: 'openai',
+        embeddingModel,
+        async generate(request) {
+            // Only images go inline; documents reach the model as extracted text
+            const fileData = request.task === 'analysis' ? request.payload.fileData : undefined;
+            const image = fileData?.mimeType.startsWith('image/') ? fileData : undefined;
+            const content: string | ContentPart[] = image
+                ? [
+                    { type: 'text', text: request.prompt },
+                    { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+                ]
+                : request.prompt;
+
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: config.model,
+                    messages: [{ role: 'user', content }],
+                    temperature: 0.2,
+                    response_format: { type: 'json_object' },
+                    stream: false
+                })
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`API Error ${response.status} (${config.model}): ${errorText.slice(0, 150)}`);
+            }
+
+            const data = await response.json();
+            const text = data.choices?.[0]?.message?.content;
+            if (!text) throw new Error('No response content from AI');
+            return { text, model: data.model || config.model };
+        },
+
+        async embed(texts) {
+            const response = await fetch(`${baseUrl}/embeddings`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model: embeddingModel, input: texts })
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`API Error ${response.status} (${embeddingModel}): ${errorText.slice(0, 150)}`);
+            }
+
+            const data = await response.json();
+            const rows = ((data.data || []) as { index: number; embedding: number[] }[])
+                .sort((a, b) => a.index - b.index);
+            if (rows.length !== texts.length) throw new Error('Embedding count mismatch');
+            return rows.map(row => row.embedding);
+        }
+    };
+}
@@ -0,0 +1,50 @@
+import type { ExtractionPayload } from '../../lib/content-extractor';
+import type { ActivationCutInput } from '../../lib/activation-cut';
+import type { RealityFacts } from '../../lib/reality-check';
+import type { TriageInput } from '../../lib/triage';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// What the prompt was built from, by task; the mock provider answers from it directly
+export type GenerateInput =
+    | { task: 'analysis'; payload: ExtractionPayload }      // Carries fileData
+    | { task: 'activation-cut'; input: ActivationCutInput }
+    | { task: 'reality-check'; input: RealityFacts }
+    | { task: 'triage'; input: TriageInput[] };
+
+export type GenerateTask = GenerateInput['task'];
+
+export type GenerateRequest = GenerateInput & {
+    prompt: string;
+    responseSchema?: object;        // Gemini responseSchema; other backends get plain JSON mode
+};
+
+export interface GenerateResult {
+    text: string;                   // The model's raw output
+    model: string;                  // The model that actually answered, after any fallback
+}
+
+// A backend returns the model's raw text; AIService owns the prompt and the parsing
+export interface AIProvider {
+    readonly id: ProviderId;
+    readonly embeddingModel: string;    // Vectors of different models are not comparable
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+    embed(texts: string[]): Promise<number[][]>;     // One vector per text, same order
+}
+
+export interface GeminiConfig {
+    model: string;                  // Empty: automatic, walk the fallback chain
+}
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string;                // Up to and including /v1
+    model: string;
+    embeddingModel?: string;        // Defaults to `model`; Ollama: nomic-embed-text
+    apiKey?: string;                // Local servers usually need none
+}
+
+export interface AISettings {
+    provider: ProviderId;
+    gemini: GeminiConfig;
+    openai: OpenAICompatibleConfig;
+}
@@ -1,38 +1,73 @@
 /// <reference types="chrome"/>
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import styles from './SidePanel.module.css';
-import { useCardStore } from '../store/card-store';
+import { useCardStore, CARDS_STORAGE_KEY } from '../store/card-store';
 import { supabase } from '../lib/supabase';
 import { storage } from '../lib/storage';
+import { sendRuntimeMessage, PENDING_CONFRONTATION_KEY } from '../lib/messages';
+import {
+    DEFAULT_GATE_SETTINGS,
+    GATE_SETTINGS_KEY,
+    QUARANTINE_KEY,
+    closuresSince,
+    getGateSettings,
+    readQuarantine,
+    type GateSettings,
+    type QuarantinedCapture,
+} from '../lib/intake-gate';
 import { formatTimeSince, calculateSystemState } from '../lib/types';
-import type { Card, Category } from '../lib/types';
+import type { Card, CardDraft } from '../lib/types';
+import type { ExtractionPayload } from '../lib/content-extractor';
 import clsx from 'clsx';
 import {
     BarChart3, Clock, Sparkles, Key,
-    Trash, Play, AlertTriangle, Plus
+    Trash, Play, AlertTriangle, Plus, RotateCw, ListChecks
 } from 'lucide-react';
 import ExecuteMode from '../components/ExecuteMode';
 import CaptureModal from '../components/CaptureModal';
 import OnboardingGuide from '../components/OnboardingGuide';
+import ImportPanel from '../components/ImportPanel';
+import IntakeGatePanel from '../components/IntakeGatePanel';
+import AIProviderPanel from '../components/AIProviderPanel';
+import AnalysisQueuePanel from '../components/AnalysisQueuePanel';
+import AttachmentImage from '../components/AttachmentImage';
+import ExtraContextList from '../components/ExtraContextList';
+import ActivationCutEditor, { type CutStatus } from '../components/ActivationCutEditor';
+import ClusterView from '../components/ClusterView';
+import ClusterConfrontation from '../components/ClusterConfrontation';
+import TriageMode from '../components/TriageMode';
+import TabCutBar from '../components/TabCutBar';
+import type { TriageDecision } from '../lib/triage';
+import { activationInputOf, fallbackCut, type ActivationCut } from '../lib/activation-cut';
+import { collectRealityFacts, staticRealityStatement } from '../lib/reality-check';
+import { aiService } from '../services/ai-service';
+import { contextForDrop, draftForDrop, readDrop } from '../lib/drop-capture';
+import { mapWithConcurrency } from '../lib/concurrency';
 import Atmosphere from '../components/Atmosphere';
 
 type ConfrontationStep = 'gate' | 'reality' | 'decision';
 
+const LIST_DROP_TARGET = 'list';
+const DROP_ANALYSIS_CONCURRENCY = 3;
+
 export default function SidePanel() {
     const {
         cards,
         loadCards,
         addCard,
+        captureCards,
         startConfrontation,
         cancelConfrontation,
         executeCard,
         shadowCard,
         discardCard,
+        resolveCluster,
         deleteCard, // New
         startExecuteTimer,
         stopExecute,
         abortExecute,
-        updateCard
+        updateCard,
+        getCard
     } = useCardStore();
 
     const [activeCardId, setActiveCardId] = useState<string | null>(null);
@@ -56,6 +91,18 @@ export default function SidePanel() {
     // Theme State
     const [theme, setTheme] = useState<'void' | 'dark' | 'flux'>('void');
     const [accentColor, setAccentColor] = useState<string>('#d9ff00');
+    const [heldCaptures, setHeldCaptures] = useState<QuarantinedCapture[]>([]);
+    const [gateSettings, setGateSettings] = useState<GateSettings>(DEFAULT_GATE_SETTINGS);
+    const [dropTarget, setDropTarget] = useState<string | null>(null); // LIST_DROP_TARGET or a card id
+    const [pendingDrops, setPendingDrops] = useState(0);
+    const [activationCut, setActivationCut] = useState<ActivationCut | null>(null);
+    const [cutStatus, setCutStatus] = useState<CutStatus>('generating');
+    const cutRequestFor = useRef<string | null>(null); // Late answers for another card are dropped
+    const cutEdited = useRef(false);                   // The user's own cut wins over a late AI answer
+    const [realityStatement, setRealityStatement] = useState<{ confrontedAt: number; text: string } | null>(null);
+    const [showClusters, setShowClusters] = useState(false);
+    const [clusterIds, setClusterIds] = useState<string[] | null>(null);
+    const [showTriage, setShowTriage] = useState(false);
 
     useEffect(() => {
         loadCards();
@@ -91,12 +138,52 @@ export default function SidePanel() {
             if (!paired) setView('settings');
         });
 
-        if (typeof chrome !== 'undefined' && chrome.storage) {
-            const listener = () => loadCards();
-            chrome.storage.onChanged.addListener(listener);
-            return () => chrome.storage.onChanged.removeListener(listener);
-        }
-    }, [loadCards]);
+        // Keyboard "confront oldest" handoff from the service worker
+        const consumePendingConfrontation = async () => {
+            const id = await storage.get<string>(PENDING_CONFRONTATION_KEY);
+            if (!id) return;
+            await storage.remove(PENDING_CONFRONTATION_KEY);
+            await loadCards();
+
+            const { cards: latest } = useCardStore.getState();
+            const card = latest.find(c => c.id === id);
+            if (card?.state !== 'uncommitted' || latest.some(c => c.state === 'confronting')) return;
+
+            setActiveCardId(id);
+            setConfrontationStep('gate');
+            startConfrontation(id);
+        };
+        consumePendingConfrontation();
+        const unwatchPending = storage.watch<string>(PENDING_CONFRONTATION_KEY, id => {
+            if (id) consumePendingConfrontation();
+        });
+
+        // Card writes from the service worker; the writer syncs, so the re-read does not
+        const unwatchCards = storage.watch(CARDS_STORAGE_KEY, () => loadCards({ sync: false }));
+        return () => {
+            unwatchCards();
+            unwatchPending();
+        };
+    }, [loadCards, startConfrontation]);
+
+    // Intake gate: captures held while the system is overloaded
+    useEffect(() => {
+        const refresh = () => {
+            readQuarantine().then(setHeldCaptures);
+            getGateSettings().then(setGateSettings);
+        };
+        refresh();
+        const unwatchHeld = storage.watch(QUARANTINE_KEY, refresh);
+        const unwatchSettings = storage.watch(GATE_SETTINGS_KEY, refresh);
+        return () => {
+            unwatchHeld();
+            unwatchSettings();
+        };
+    }, []);
+
+    const closuresToAdmit = heldCaptures.length > 0
+        ? Math.max(0, gateSettings.closuresRequired - closuresSince(cards, heldCaptures[0].heldAt))
+        : 0;
 
     // Computed Metrics
     const systemState = useMemo(() => calculateSystemState(cards), [cards]);
@@ -105,6 +192,7 @@ export default function SidePanel() {
         cards.filter(c => ['uncommitted', 'shadowed', 'executed'].includes(c.state)).length,
         [cards]
     );
+    const uncommittedCount = useMemo(() => cards.filter(c => c.state === 'uncommitted').length, [cards]);
 
     // SYSTEM MIRROR SYNC
     useEffect(() => {
@@ -154,6 +242,26 @@ export default function SidePanel() {
     }, [cards, activeFilter]);
 
     const activeCard = useMemo(() => cards.find(c => c.id === activeCardId), [cards, activeCardId]);
+    const clusterCards = clusterIds
+        ? cards.filter(c => clusterIds.includes(c.id) && (c.state === 'uncommitted' || c.state === 'shadowed'))
+        : [];
+
+    // Reality statement: generated once per confrontation while the gate is shown
+    const confrontedAt = activeCard?.state === 'confronting' ? activeCard.confrontedAt : undefined;
+    useEffect(() => {
+        if (!activeCardId || !confrontedAt) return;
+        const { cards: latest, getCard: find } = useCardStore.getState();
+        const card = find(activeCardId);
+        if (!card) return;
+
+        let cancelled = false;
+        aiService.generateRealityStatement(collectRealityFacts(card, latest))
+            .then(text => {
+                if (!cancelled) setRealityStatement({ confrontedAt, text });
+            })
+            .catch(() => { /* The static statement stands */ });
+        return () => { cancelled = true; };
+    }, [activeCardId, confrontedAt]);
 
     const timeSinceCreation = useMemo(() =>
         activeCard ? formatTimeSince(activeCard.createdAt) : '',
@@ -177,14 +285,59 @@ export default function SidePanel() {
         }
     };
 
+    const handleRetryAnalysis = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        sendRuntimeMessage({ type: 'cutoff:retry-analysis', cardId: id });
+    };
+
+    // Analysed cards are re-run past the cache, e.g. after the page changed
+    const handleReanalyze = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        sendRuntimeMessage({ type: 'cutoff:reanalyze', cardId: id });
+    };
+
+    // Generated while the reality check runs; the decision view shows it editable
+    const proposeActivationCut = (card: Card) => {
+        cutRequestFor.current = card.id;
+        cutEdited.current = false;
+        setActivationCut(fallbackCut(card));
+        setCutStatus('generating');
+        aiService.generateActivationCut(activationInputOf(card))
+            .then(cut => {
+                if (cutRequestFor.current !== card.id) return;
+                setCutStatus('ready');
+                if (cutEdited.current) return;
+                setActivationCut(current => ({
+                    startAction: cut.startAction || current?.startAction || '',
+                    stopRule: cut.stopRule || current?.stopRule || '',
+                    durationMinutes: cut.durationMinutes,
+                }));
+            })
+            .catch(() => {
+                if (cutRequestFor.current === card.id) setCutStatus('failed');
+            });
+    };
+
+    const handleEditCut = (cut: ActivationCut) => {
+        cutEdited.current = true;
+        setActivationCut(cut);
+    };
+
     const handleEnterConfrontation = () => {
         setConfrontationStep('reality');
         setTimeout(() => setConfrontationStep('decision'), 2500);
+        if (activeCard) proposeActivationCut(activeCard);
     };
 
     const handleExecute = async () => {
         if (!activeCardId) return;
-        await executeCard(activeCardId);
+        cutRequestFor.current = null;
+        await executeCard(
+            activeCardId,
+            activationCut?.startAction.trim(),
+            activationCut?.stopRule.trim(),
+            activationCut?.durationMinutes
+        );
     };
 
     const handleShadow = async () => {
@@ -197,6 +350,30 @@ export default function SidePanel() {
         if (!activeCardId) return;
         await discardCard(activeCardId);
         setActiveCardId(null);
+        sendRuntimeMessage({ type: 'cutoff:admit-quarantine' });
+    };
+
+    // One decision for the whole cluster; the executed card opens straight into Execute Mode
+    const handleResolveCluster = async (executeId: string | null) => {
+        if (!clusterIds) return;
+        // Only the members still shown: a card decided meanwhile keeps its decision
+        await resolveCluster(executeId, clusterCards.map(c => c.id).filter(id => id !== executeId));
+        setClusterIds(null);
+        if (executeId) setActiveCardId(executeId);
+        sendRuntimeMessage({ type: 'cutoff:admit-quarantine' });
+    };
+
+    // Accepted proposals take the confrontation path so history counts them and shadows sync
+    const handleTriageDecision = async (id: string, decision: TriageDecision, cut?: ActivationCut) => {
+        startConfrontation(id);
+        if (decision === 'execute') await executeCard(id, cut?.startAction.trim(), cut?.stopRule.trim(), cut?.durationMinutes);
+        else if (decision === 'shadow') await shadowCard(id);
+        else await discardCard(id);
+    };
+
+    const handleCloseTriage = () => {
+        setShowTriage(false);
+        sendRuntimeMessage({ type: 'cutoff:admit-quarantine' });
     };
 
     const handleGoBack = () => {
@@ -204,8 +381,63 @@ export default function SidePanel() {
         setActiveCardId(null);
     };
 
-    const handleSaveCapture = async (content: string, type: 'url' | 'text' | 'file', platform?: string, title?: string, aiSummary?: string, category?: string) => {
-        await addCard(content, type, platform, title, title, aiSummary, category as Category);
+    const handleSaveCapture = async (draft: CardDraft, payload?: ExtractionPayload) => {
+        const result = await addCard(draft);
+        if (result.status === 'added' && result.card.analysisStatus === 'pending') {
+            sendRuntimeMessage({ type: 'cutoff:queue-analysis', cardId: result.card.id, payload });
+        }
+    };
+
+    // Pasted lists land in one write, each item through the intake gate; items not analysed in the modal go to the service worker
+    const handleSaveCaptureBatch = async (drafts: CardDraft[]) => {
+        const results = await captureCards(drafts);
+        results.forEach(result => {
+            if (result.status === 'added' && result.card.analysisStatus === 'pending') {
+                sendRuntimeMessage({ type: 'cutoff:queue-analysis', cardId: result.card.id });
+            }
+        });
+        return results;
+    };
+
+    const handleDragOver = (e: React.DragEvent, target: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'copy';
+        if (dropTarget !== target) setDropTarget(target);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+    };
+
+    // Onto the list: one card per item. Onto a card: context for that card, no new loop
+    const handleDrop = async (e: React.DragEvent, cardId?: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+        const items = readDrop(e.dataTransfer);
+        if (items.length === 0) return;
+
+        setPendingDrops(count => count + items.length);
+        try {
+            if (cardId) {
+                const context = await Promise.all(items.map(contextForDrop));
+                const current = getCard(cardId);
+                if (current) await updateCard(cardId, { extraContext: [...(current.extraContext || []), ...context] });
+                return;
+            }
+
+            // Analysed side by side, added in drop order so each capture passes the intake gate
+            const dropped = await mapWithConcurrency(items, DROP_ANALYSIS_CONCURRENCY, draftForDrop);
+            for (const { draft, payload } of dropped) {
+                const result = await addCard(draft);
+                if (result.status === 'added' && result.card.analysisStatus === 'pending') {
+                    sendRuntimeMessage({ type: 'cutoff:queue-analysis', cardId: result.card.id, payload });
+                }
+            }
+        } finally {
+            setPendingDrops(count => count - items.length);
+        }
     };
 
     const handlePairing = async () => {
@@ -259,6 +491,7 @@ export default function SidePanel() {
                 onStop={async () => {
                     await stopExecute(activeCardId!);
                     setActiveCardId(null);
+                    sendRuntimeMessage({ type: 'cutoff:admit-quarantine' });
                 }}
                 onAbort={async () => {
                     await abortExecute(activeCardId!);
@@ -269,6 +502,22 @@ export default function SidePanel() {
         );
     }
 
+    // --- TRIAGE ---
+    if (showTriage) {
+        return <TriageMode onDecide={handleTriageDecision} onClose={handleCloseTriage} />;
+    }
+
+    // --- CLUSTER CONFRONTATION ---
+    if (clusterCards.length > 1) {
+        return (
+            <ClusterConfrontation
+                cards={clusterCards}
+                onResolve={handleResolveCluster}
+                onCancel={() => setClusterIds(null)}
+            />
+        );
+    }
+
     // --- CONFRONTATION UI ---
     if (activeCardId && activeCard && activeCard.state === 'confronting') {
         return (
@@ -297,7 +546,9 @@ export default function SidePanel() {
                                 <p>This is confrontation #{activeCard.totalConfrontations}.</p>
                             )}
                             <p className={styles.realityConclusion}>
-                                The only effect was reduced anxiety.
+                                {realityStatement && realityStatement.confrontedAt === activeCard.confrontedAt
+                                    ? realityStatement.text
+                                    : staticRealityStatement(collectRealityFacts(activeCard, cards))}
                             </p>
                         </div>
                         <div className={styles.loader}>
@@ -309,6 +560,9 @@ export default function SidePanel() {
                 {confrontationStep === 'decision' && (
                     <div className={styles.decisionMatrix}>
                         <div className={styles.sourcePreview}>
+                            {activeCard.attachment && (
+                                <AttachmentImage attachment={activeCard.attachment} alt={activeCard.extractedTitle || 'Screenshot'} />
+                            )}
                             {activeCard.aiTitle || activeCard.extractedTitle || activeCard.sourceContent.slice(0, 80)}
                             {activeCard.category && (
                                 <span className={styles.confrontationTag}>
@@ -316,17 +570,26 @@ export default function SidePanel() {
                                 </span>
                             )}
                             {activeCard.aiSummary && (
-                                <div className={styles.aiSummaryPreview}>
+                                <div className={styles.aiSummaryPreview} title={activeCard.aiModel}>
                                     <Sparkles size={10} style={{ display: 'inline', marginRight: 4 }} aria-label="AI insight" />
                                     {activeCard.aiSummary}
                                 </div>
                             )}
+                            {!!activeCard.extraContext?.length && (
+                                <ExtraContextList items={activeCard.extraContext} />
+                            )}
                         </div>
 
+                        {activationCut && (
+                            <ActivationCutEditor cut={activationCut} status={cutStatus} onChange={handleEditCut} />
+                        )}
+
                         <div className={styles.buttons}>
                             <button onClick={handleExecute} className={styles.executeButton} aria-label="Execute Card">
                                 <Play size={16} aria-hidden="true" /> EXECUTE
-                                <span className={styles.buttonHint}>15 min commitment</span>
+                                <span className={styles.buttonHint}>
+                                    {activationCut?.durationMinutes ?? activeCard.executeDuration} min commitment
+                                </span>
                             </button>
                             <button onClick={handleShadow} className={styles.shadowButton} aria-label="Shadow Card">
                                 <Clock size={16} aria-hidden="true" /> SHADOW
@@ -354,6 +617,7 @@ export default function SidePanel() {
                 isOpen={isCaptureOpen}
                 onClose={() => setIsCaptureOpen(false)}
                 onSave={handleSaveCapture}
+                onSaveBatch={handleSaveCaptureBatch}
             />
 
             <header className={styles.header}>
@@ -390,23 +654,60 @@ export default function SidePanel() {
                 {CATEGORIES.map(cat => (
                     <button
                         key={cat}
-                        onClick={() => setActiveFilter(cat)}
+                        onClick={() => { setActiveFilter(cat); setShowClusters(false); }}
                         className={clsx(
                             styles.filterButton,
-                            activeFilter === cat && styles.filterButtonActive
+                            activeFilter === cat && !showClusters && styles.filterButtonActive
                         )}
                     >
                         {cat}
                     </button>
                 ))}
+                <button
+                    onClick={() => setShowClusters(!showClusters)}
+                    className={clsx(styles.filterButton, showClusters && styles.filterButtonActive)}
+                    title="Related open loops, grouped by meaning"
+                >
+                    Clusters
+                </button>
             </div>
 
             <button onClick={() => setIsCaptureOpen(true)} className={styles.addButton} aria-label="Capture new loop">
                 <Plus size={14} aria-hidden="true" /> CAPTURE
             </button>
 
-            <div className={styles.list}>
-                {activeCards.length === 0 ? (
+            <TabCutBar />
+
+            {uncommittedCount > 1 && (
+                <button onClick={() => setShowTriage(true)} className={styles.triageButton}>
+                    <ListChecks size={14} aria-hidden="true" /> TRIAGE {uncommittedCount} UNCOMMITTED
+                </button>
+            )}
+
+            {heldCaptures.length > 0 && (
+                <div className={styles.heldStrip} title={heldCaptures.map(h => h.draft.extractedTitle || h.draft.sourceContent).join('\n')}>
+                    {heldCaptures.length} CAPTURE{heldCaptures.length === 1 ? '' : 'S'} HELD.{' '}
+                    {closuresToAdmit > 0
+                        ? `CLOSE ${closuresToAdmit} LOOP${closuresToAdmit === 1 ? '' : 'S'} TO ADMIT.`
+                        : 'ADMISSION PENDING.'}
+                </div>
+            )}
+
+            {pendingDrops > 0 && (
+                <div className={styles.dropStatus}>
+                    READING {pendingDrops} DROPPED ITEM{pendingDrops === 1 ? '' : 'S'}...
+                </div>
+            )}
+
+            <div
+                className={clsx(styles.list, dropTarget === LIST_DROP_TARGET && styles.listDropActive)}
+                onDragOver={(e) => handleDragOver(e, LIST_DROP_TARGET)}
+                onDragLeave={handleDragLeave}
+                onDrop={(e) => handleDrop(e)}
+            >
+                {showClusters ? (
+                    <ClusterView onConfront={setClusterIds} />
+                ) : activeCards.length === 0 ? (
                     <div className={styles.empty}>
                         {activeFilter === 'All' ? (
                             <>
@@ -425,16 +726,20 @@ export default function SidePanel() {
                             className={clsx(
                                 styles.card,
                                 styles[card.state],
-                                card.state === 'shadowed' && styles.shadowedCard
+                                card.state === 'shadowed' && styles.shadowedCard,
+                                dropTarget === card.id && styles.cardDropTarget
                             )}
                             onClick={() => handleCardClick(card.id)}
+                            onDragOver={(e) => handleDragOver(e, card.id)}
+                            onDrop={(e) => handleDrop(e, card.id)}
                             style={{ position: 'relative' }}
                         >
                             <div className={styles.cardState}>
                                 <div>
                                     {card.state === 'shadowed' ? 'SHADOW' :
                                         card.state === 'executed' ? 'EXEC' :
-                                            card.sourceType === 'url' ? 'LINK' : 'TEXT'}
+                                            card.attachment ? 'IMAGE' :
+                                                card.sourceType === 'url' ? 'LINK' : card.sourceType === 'file' ? 'FILE' : 'TEXT'}
                                 </div>
                                 {card.category && (
                                     <div className={styles.categoryBadge}>{card.category}</div>
@@ -450,10 +755,61 @@ export default function SidePanel() {
                                         {card.aiSummary}
                                     </div>
                                 )}
+
+                                {card.analysisStatus && (
+                                    <div className={clsx(styles.analysisStatus, styles[`analysis_${card.analysisStatus}`])}>
+                                        {card.analysisStatus === 'failed' ? (
+                                            <>
+                                                <span title={card.analysisError}>
+                                                    {card.analysisError === 'API_KEY_MISSING' ? 'ANALYSIS BLOCKED: NO KEY' : 'ANALYSIS FAILED'}
+                                                </span>
+                                                <button
+                                                    onClick={(e) => handleRetryAnalysis(e, card.id)}
+                                                    className={styles.retryBtn}
+                                                    aria-label="Retry AI analysis"
+                                                >
+                                                    <RotateCw size={10} aria-hidden="true" /> RETRY
+                                                </button>
+                                            </>
+                                        ) : card.analysisStatus === 'done' ? (
+                                            <>
+                                                <span><Sparkles size={10} aria-hidden="true" /> ANALYSED</span>
+                                                {/* Files are not kept: only screenshots and images can be read again */}
+                                                {(card.sourceType !== 'file' || card.attachment) && (
+                                                    <button
+                                                        onClick={(e) => handleReanalyze(e, card.id)}
+                                                        className={clsx(styles.retryBtn, styles.reanalyzeBtn)}
+                                                        aria-label="Re-run AI analysis"
+                                                        title="Analyse again, ignoring the cached result"
+                                                    >
+                                                        <RotateCw size={10} aria-hidden="true" /> REANALYSE
+                                                    </button>
+                                                )}
+                                            </>
+                                        ) : (
+                                            'ANALYSING...'
+                                        )}
+                                    </div>
+                                )}
                             </div>
 
                             <div className={styles.cardTime}>
                                 {formatTimeSince(card.createdAt)}
+                                {!!card.estimatedReadMinutes && (
+                                    <div className={styles.readTime} title="Estimated read time">
+                                        {card.estimatedReadMinutes}M READ
+                                    </div>
+                                )}
+                                {!!card.extraContext?.length && (
+                                    <div className={styles.contextCount} title="Dropped context">
+                                        +{card.extraContext.length} CTX
+                                    </div>
+                                )}
+                                {!!card.recaptureCount && (
+                                    <div className={styles.recaptureBadge} title={`Captured ${card.recaptureCount + 1} times`}>
+                                        ×{card.recaptureCount + 1}
+                                    </div>
+                                )}
                             </div>
 
                             {/* DELETE BUTTON - Fixed */}
@@ -569,6 +925,11 @@ export default function SidePanel() {
                             ))}
                         </div>
                     </div>
+
+                    <AIProviderPanel />
+                    <AnalysisQueuePanel />
+                    <IntakeGatePanel />
+                    <ImportPanel />
                 </div>
             )}
         </div>
@@ -1,20 +1,46 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import type { Card, Decision, SourceType, Category } from '../lib/types';
+import type { Card, CardDraft, Decision } from '../lib/types';
 import { storage } from '../lib/storage';
-import { calculateSystemState } from '../lib/types';
+import { calculateSystemState, toCategory } from '../lib/types';
 import { supabase } from '../lib/supabase';
-
-const STORAGE_KEY = 'cutoff_cards';
+import { releaseImportSource } from '../lib/importers';
+import { canonicalizeUrl } from '../lib/url-canonical';
+import { deleteAttachment } from '../lib/attachments';
+import { clampCutMinutes } from '../lib/activation-cut';
+import {
+    QUARANTINE_KEY,
+    getGateSettings,
+    holdCapture,
+    isGateClosed,
+    readQuarantine,
+    reviewQuarantine,
+    type QuarantinedCapture,
+} from '../lib/intake-gate';
+
+export const CARDS_STORAGE_KEY = 'cutoff_cards';
 const DEFAULT_EXECUTE_DURATION = 15; // minutes
+const MAX_RECAPTURE_TIMESTAMPS = 20;
+
+// merged = the capture was folded into an existing open card
+export interface AdmittedCapture {
+    status: 'added' | 'merged';
+    card: Card;
+}
+
+// held = the intake gate is closed; the draft waits in quarantine
+export type CaptureResult = AdmittedCapture | { status: 'held'; held: QuarantinedCapture };
 
-interface CardStore {
+export interface CardStore {
     cards: Card[];
     isLoading: boolean;
 
     // Actions
-    loadCards: () => Promise<void>;
-    addCard: (sourceContent: string, sourceType: SourceType, platformName?: string, extractedTitle?: string, aiTitle?: string, aiSummary?: string, category?: Category) => Promise<void>;
+    loadCards: (options?: { sync?: boolean }) => Promise<void>; // sync: false for background re-reads
+    addCard: (draft: CardDraft) => Promise<CaptureResult>;        // Subject to the intake gate
+    addCards: (drafts: CardDraft[]) => Promise<AdmittedCapture[]>; // Batch imports: one storage write, never gated
+    captureCards: (drafts: CardDraft[]) => Promise<CaptureResult[]>; // Batch captures: gated per draft, one write
+    admitQuarantined: () => Promise<Card[]>; // Admits held captures that earned entry, drops expired ones
     deleteCard: (id: string) => Promise<void>;
 
     // Confrontation
@@ -22,15 +48,17 @@ interface CardStore {
     cancelConfrontation: (id: string) => void;
 
     // Decisions (from confrontation)
-    executeCard: (id: string, startAction?: string, stopRule?: string) => Promise<void>;
+    executeCard: (id: string, startAction?: string, stopRule?: string, durationMinutes?: number) => Promise<void>;
     shadowCard: (id: string) => Promise<void>;
     discardCard: (id: string) => Promise<void>;
+    resolveCluster: (executeId: string | null, discardIds: string[]) => Promise<void>; // One decision for related loops
 
     // Execute Mode
     startExecuteTimer: (id: string) => Promise<void>;
     stopExecute: (id: string) => Promise<void>;  // Loop closed
     abortExecute: (id: string) => Promise<void>; // Loop remains (→ shadowed)
-    updateCard: (id: string, updates: Partial<Card>) => Promise<void>; // Generic update
+    updateCard: (id: string, updates: Partial<Card>) => Promise<void>; // Generic update, not synced
+    syncCards: () => void;       // One cloud sync after a run of unsynced updates
 
     // Computed
     getCard: (id: string) => Card | undefined;
@@ -39,54 +67,186 @@ interface CardStore {
 
     // Internal
     _syncToCloud: (updatedCards: Card[]) => void;
+    _releaseSource: (id: string) => void;
 }
 
+const cardIdentity = (card: Pick<Card, 'sourceType' | 'sourceContent' | 'canonicalUrl'>) =>
+    card.sourceType === 'url' ? card.canonicalUrl || canonicalizeUrl(card.sourceContent) : null;
+
+const isOpenLoop = (card: Card) =>
+    card.state === 'uncommitted' || card.state === 'shadowed' || card.state === 'executed' || card.state === 'confronting';
+
+// A 4-minute read does not need a 15-minute block; long reads are still capped
+const durationForReadTime = (readMinutes?: number) =>
+    readMinutes
+        ? clampCutMinutes(Math.ceil(readMinutes))
+        : DEFAULT_EXECUTE_DURATION;
+
+const createCard = (draft: CardDraft): Card => ({
+    ...draft,
+    canonicalUrl: draft.sourceType === 'url' ? cardIdentity(draft)! : undefined,
+    id: uuidv4(),
+    state: 'uncommitted',
+    createdAt: draft.createdAt || Date.now(),
+    totalConfrontations: 0,
+    executeDuration: durationForReadTime(draft.estimatedReadMinutes),
+});
+
 export const useCardStore = create<CardStore>((set, get) => ({
     cards: [],
     isLoading: true,
 
-    loadCards: async () => {
-        const cards = await storage.get<Card[]>(STORAGE_KEY);
+    loadCards: async ({ sync = true } = {}) => {
+        const cards = await storage.get<Card[]>(CARDS_STORAGE_KEY);
+        // Confrontation lives in memory only; keep it alive when the service worker rewrites storage
+        const confronting = new Map(
+            get().cards.filter(c => c.state === 'confronting').map(c => [c.id, c])
+        );
+
         // Reset any "confronting" state on load and apply defaults
-        const cleanCards = (cards || []).map(card => ({
-            ...card,
-            state: card.state === 'confronting' ? 'uncommitted' : card.state,
-            executeDuration: card.executeDuration || DEFAULT_EXECUTE_DURATION,
-            totalConfrontations: card.totalConfrontations || 0,
-        } as Card));
+        const cleanCards = (cards || []).map(card => {
+            const local = confronting.get(card.id);
+            // Older analyses stored free-form categories ("Video") that no filter matches
+            const category = toCategory(card.category);
+            if (local && (card.state === 'uncommitted' || card.state === 'shadowed')) {
+                return {
+                    ...card,
+                    category,
+                    state: 'confronting',
+                    confrontedAt: local.confrontedAt,
+                    totalConfrontations: local.totalConfrontations,
+                    executeDuration: card.executeDuration || DEFAULT_EXECUTE_DURATION,
+                } as Card;
+            }
+            return {
+                ...card,
+                category,
+                state: card.state === 'confronting' ? 'uncommitted' : card.state,
+                executeDuration: card.executeDuration || DEFAULT_EXECUTE_DURATION,
+                totalConfrontations: card.totalConfrontations || 0,
+            } as Card;
+        });
         set({ cards: cleanCards, isLoading: false });
 
         // Force a cloud sync on load to ensure the mirror is warm
-        get()._syncToCloud(cleanCards);
+        if (sync) get()._syncToCloud(cleanCards);
+    },
+
+    addCard: async (draft) => {
+        // Recaptures merge into an existing loop, so they never add load
+        const { cards } = get();
+        const identity = cardIdentity(draft);
+        const isRecapture = !!identity && cards.some(c => isOpenLoop(c) && cardIdentity(c) === identity);
+
+        const settings = await getGateSettings();
+        if (!isRecapture && isGateClosed(cards, settings)) {
+            return { status: 'held', held: await holdCapture(draft, settings, identity) };
+        }
+
+        const [result] = await get().addCards([draft]);
+        return result;
+    },
+
+    // Each draft meets the gate as if captured alone, counting the ones admitted before it
+    captureCards: async (drafts) => {
+        const settings = await getGateSettings();
+        const { cards } = get();
+        const projected = [...cards];
+        const openIdentities = new Set(cards.filter(isOpenLoop).map(cardIdentity));
+
+        const admitted: CardDraft[] = [];
+        const held = new Map<number, QuarantinedCapture>();
+        for (const [i, draft] of drafts.entries()) {
+            const identity = cardIdentity(draft);
+            const isRecapture = !!identity && openIdentities.has(identity);
+            if (!isRecapture && isGateClosed(projected, settings)) {
+                held.set(i, await holdCapture(draft, settings, identity));
+                continue;
+            }
+            admitted.push(draft);
+            if (!isRecapture) {
+                projected.push(createCard(draft));
+                if (identity) openIdentities.add(identity);
+            }
+        }
+
+        const results = (await get().addCards(admitted)).values();
+        return drafts.map((_, i): CaptureResult => {
+            const heldCapture = held.get(i);
+            return heldCapture ? { status: 'held', held: heldCapture } : results.next().value!;
+        });
     },
 
-    addCard: async (sourceContent, sourceType, platformName, extractedTitle, aiTitle, aiSummary, category) => {
-        const newCard: Card = {
-            id: uuidv4(),
-            state: 'uncommitted',
-            sourceType,
-            sourceContent,
-            platformName,
-            extractedTitle,
-            aiTitle,
-            aiSummary,
-            category,
-            createdAt: Date.now(),
-            totalConfrontations: 0,
-            executeDuration: DEFAULT_EXECUTE_DURATION,
-        };
-
-        const updatedCards = [newCard, ...get().cards];
+    // Recaptures of an open loop (same canonical URL) merge instead of adding a card
+    addCards: async (drafts) => {
+        if (drafts.length === 0) return [];
+
+        const { cards } = get();
+        const openByIdentity = new Map<string, string>();
+        cards.filter(isOpenLoop).forEach(card => {
+            const identity = cardIdentity(card);
+            if (identity) openByIdentity.set(identity, card.id);
+        });
+
+        const now = Date.now();
+        const touched = new Map<string, Card>(); // New and merged cards by id
+        const newIds: string[] = [];
+        const results: { id: string; status: AdmittedCapture['status'] }[] = [];
+
+        for (const draft of drafts) {
+            const identity = cardIdentity(draft);
+            const existingId = identity ? openByIdentity.get(identity) : undefined;
+
+            if (existingId) {
+                const current = touched.get(existingId) || cards.find(c => c.id === existingId)!;
+                touched.set(existingId, {
+                    ...current,
+                    extractedTitle: current.extractedTitle || draft.extractedTitle,
+                    recaptureCount: (current.recaptureCount || 0) + 1,
+                    recapturedAt: [...(current.recapturedAt || []), now].slice(-MAX_RECAPTURE_TIMESTAMPS),
+                });
+                results.push({ id: existingId, status: 'merged' });
+                continue;
+            }
+
+            const newCard = createCard(draft);
+            touched.set(newCard.id, newCard);
+            newIds.push(newCard.id);
+            if (identity) openByIdentity.set(identity, newCard.id);
+            results.push({ id: newCard.id, status: 'added' });
+        }
+
+        const updatedCards = [
+            ...newIds.map(id => touched.get(id)!),
+            ...cards.map(c => touched.get(c.id) || c),
+        ];
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
         get()._syncToCloud(updatedCards);
+        return results.map(({ id, status }) => ({ status, card: touched.get(id)! }));
+    },
+
+    admitQuarantined: async () => {
+        const quarantine = await readQuarantine();
+        if (quarantine.length === 0) return [];
+
+        const review = reviewQuarantine(quarantine, get().cards, await getGateSettings());
+        if (review.admitted.length === 0 && review.expired.length === 0) return [];
+
+        await storage.set(QUARANTINE_KEY, review.remaining);
+        await Promise.all(review.expired.map(held => held.draft.attachment && deleteAttachment(held.draft.attachment.id)));
+        const admitted = await get().addCards(review.admitted.map(held => ({ ...held.draft, createdAt: held.heldAt })));
+        return admitted.filter(result => result.status === 'added').map(result => result.card);
     },
 
     deleteCard: async (id) => {
         const { cards } = get();
+        const card = cards.find(c => c.id === id);
+        const attachments = [card?.attachment, ...(card?.extraContext || []).map(item => item.attachment)];
         const updatedCards = cards.filter(c => c.id !== id);
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+        await Promise.all(attachments.map(attachment => attachment && deleteAttachment(attachment.id)));
         get()._syncToCloud(updatedCards);
     },
 
@@ -121,7 +281,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
     },
 
     // EXECUTE: Start limited commitment
-    executeCard: async (id, startAction, stopRule) => {
+    executeCard: async (id, startAction, stopRule, durationMinutes) => {
         const { cards } = get();
         const updatedCards = cards.map(card =>
             card.id === id
@@ -130,13 +290,18 @@ export const useCardStore = create<CardStore>((set, get) => ({
                     state: 'executed' as const,
                     decision: 'execute' as Decision,
                     decidedAt: Date.now(),
-                    startAction: startAction || 'Begin the first concrete step',
+                    startAction: startAction || card.startAction || 'Begin the first concrete step',
                     stopRule: stopRule || 'Stop after completing one meaningful action',
+                    executeDuration: durationMinutes ? clampCutMinutes(durationMinutes) : card.executeDuration,
                 }
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+        get()._releaseSource(id);
+
+        // Sync Trigger
+        await get()._syncToCloud(updatedCards);
     },
 
     // SHADOW: Acknowledge but defer (open loop remains)
@@ -153,7 +318,8 @@ export const useCardStore = create<CardStore>((set, get) => ({
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+        get()._releaseSource(id);
 
         // Sync Trigger
         await get()._syncToCloud(updatedCards);
@@ -169,11 +335,54 @@ export const useCardStore = create<CardStore>((set, get) => ({
                     state: 'discarded' as const,
                     decision: 'discard' as Decision,
                     decidedAt: Date.now(),
+                    closedAt: Date.now(),
                 }
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+        get()._releaseSource(id);
+
+        // Sync Trigger
+        await get()._syncToCloud(updatedCards);
+    },
+
+    // CLUSTER: Execute at most one related loop, close the others in the same write
+    resolveCluster: async (executeId, discardIds) => {
+        const { cards } = get();
+        const now = Date.now();
+        const discard = new Set(discardIds);
+        const updatedCards = cards.map(card => {
+            if (card.id === executeId) {
+                return {
+                    ...card,
+                    state: 'executed' as const,
+                    decision: 'execute' as Decision,
+                    confrontedAt: now,
+                    totalConfrontations: card.totalConfrontations + 1,
+                    decidedAt: now,
+                    startAction: card.startAction || 'Begin the first concrete step',
+                    stopRule: card.stopRule || 'Stop after completing one meaningful action',
+                };
+            }
+            if (discard.has(card.id)) {
+                return {
+                    ...card,
+                    state: 'discarded' as const,
+                    decision: 'discard' as Decision,
+                    confrontedAt: now,
+                    totalConfrontations: card.totalConfrontations + 1,
+                    decidedAt: now,
+                    closedAt: now,
+                };
+            }
+            return card;
+        });
+        set({ cards: updatedCards });
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+        [executeId, ...discardIds].forEach(id => id && get()._releaseSource(id));
+
+        await get()._syncToCloud(updatedCards);
     },
 
     // Execute Mode: Start timer
@@ -185,7 +394,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
     },
 
     // Execute Mode: Stop = loop closed (like discard)
@@ -197,11 +406,15 @@ export const useCardStore = create<CardStore>((set, get) => ({
                     ...card,
                     state: 'discarded' as const,
                     executeResult: 'stopped' as const,
+                    closedAt: Date.now(),
                 }
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+
+        // Sync Trigger
+        await get()._syncToCloud(updatedCards);
     },
 
     // Execute Mode: Abort = loop remains open (→ shadowed)
@@ -218,7 +431,10 @@ export const useCardStore = create<CardStore>((set, get) => ({
                 : card
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
+
+        // Sync Trigger
+        await get()._syncToCloud(updatedCards);
     },
 
     updateCard: async (id, updates) => {
@@ -227,9 +443,11 @@ export const useCardStore = create<CardStore>((set, get) => ({
             c.id === id ? { ...c, ...updates } : c
         );
         set({ cards: updatedCards });
-        await storage.set(STORAGE_KEY, updatedCards);
+        await storage.set(CARDS_STORAGE_KEY, updatedCards);
     },
 
+    syncCards: () => get()._syncToCloud(get().cards),
+
     getCard: (id) => get().cards.find(c => c.id === id),
 
     // Active = visible cards (excludes discarded)
@@ -245,6 +463,12 @@ export const useCardStore = create<CardStore>((set, get) => ({
         ).length;
     },
 
+    // Imported cards: drop the source bookmark once decided (opt-in)
+    _releaseSource: (id) => {
+        const card = get().getCard(id);
+        if (card?.importSource) releaseImportSource(card);
+    },
+
     // Internal Cloud Sync Trigger
     _syncToCloud: async (updatedCards: Card[]) => {
         const systemState = calculateSystemState(updatedCards);
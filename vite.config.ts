@@ -16,6 +16,7 @@ export default defineConfig({
       input: {
         sidepanel: resolve(__dirname, 'sidepanel.html'),
         dashboard: resolve(__dirname, 'dashboard.html'),
+        offscreen: resolve(__dirname, 'offscreen.html'),
       },
     },
     chunkSizeWarningLimit: 1000,